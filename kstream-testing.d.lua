@@ -0,0 +1,149 @@
+---@meta kstream-testing
+
+---Utilities for testing programs built on top of kstream.
+---
+---Built as the separate `kstream-testing` bundle, so the mock node isn't shipped
+---with the library itself.
+local testing = {}
+
+---A fault to inject into the responses of a mock node.
+---@class kstream.testing.MockFault
+---
+---The kind of fault:
+---- `"timeout"` fails the request as if the network had timed out.
+---- `"error"` answers the request with an HTTP error status.
+---@field kind "timeout" | "error"
+---
+---A Lua pattern to match request paths against, or nil to match any request.
+---@field path string?
+---
+---The HTTP status code for error faults. Defaults to 500.
+---@field code number?
+---
+---The response body for error faults. Defaults to a Krist JSON error.
+---@field body string?
+---
+---Whether the node processes the request before timing out. This simulates a
+---response getting lost after a transaction was made.
+---@field processed boolean?
+---
+---How many matching requests to fail. Defaults to 1.
+---@field times number?
+
+---An in-process fake Krist node for testing code built on top of kstream.
+---
+---Once installed, the mock node intercepts every `http.post` and `http.websocket`
+---call to its endpoint and serves it from memory. Requests to other URLs are passed
+---through to the real http API. The node serves the subset of the Krist API used by
+---kstream: transaction lookups, transfers, extended searches, addresses and the
+---transaction websocket.
+---
+---Tests can script the node by injecting transactions, deleting them, and failing
+---requests with timeouts or HTTP errors:
+---
+---```lua
+---local kstream = require "kstream"
+---local testing = require "kstream-testing"
+---
+---local node = testing.MockNode.create()
+---node:install()
+---node:setBalance(address, 100)
+---
+---kstream.Stream.create("/test-stream", node.endpoint, address)
+---local stream = kstream.Stream.open("/test-stream")
+---
+----- The first submission gets through but its response is lost.
+---node:fail({ kind = "timeout", path = "^/transactions/", processed = true })
+---
+---parallel.waitForAny(
+---    function() node:run() end,
+---    function() stream:run() end,
+---    function()
+---        node:transfer("kfakeaddr0", address, 10, "return=kfakeaddr0")
+---        -- ...
+---    end
+---)
+---
+---stream:close()
+---node:uninstall()
+---```
+---@class kstream.testing.MockNode
+---
+---The node's endpoint URL.
+---@field endpoint string
+---
+---Every request path served by the node, in order, prefixed by its method.
+---@field requests string[]
+testing.MockNode = {}
+
+---Creates a new mock node.
+---@param endpoint string? The endpoint URL to serve, defaults to `"https://mock.krist"`.
+---@return kstream.testing.MockNode node The node.
+function testing.MockNode.create(endpoint) end
+
+---Replaces the http API functions with ones that serve this node.
+function testing.MockNode:install() end
+
+---Restores the http API functions replaced by install().
+function testing.MockNode:uninstall() end
+
+---Sends keepalive messages periodically so sockets don't time out.
+function testing.MockNode:run() end
+
+---Sets an address's balance, creating it if it doesn't exist.
+---@param address string The address.
+---@param balance number The new balance.
+function testing.MockNode:setBalance(address, balance) end
+
+---Fetches an address's balance.
+---@param address string The address.
+---@return number balance The balance, or 0 if the address doesn't exist.
+function testing.MockNode:getBalance(address) end
+
+---Registers a name without making a transaction for it.
+---@param name string The name, without suffix.
+---@param owner string The owner's address.
+function testing.MockNode:registerName(name, owner) end
+
+---Appends a transaction to the node's history and broadcasts it to subscribed
+---sockets. Balances are updated to reflect the transaction.
+---@param tx table The transaction. The id and time fields are filled in by the node.
+---@return table tx The created transaction.
+function testing.MockNode:pushTransaction(tx) end
+
+---Makes a transfer without checking balances.
+---@param from string The sender's address.
+---@param to string The recipient, either an address or a name with optional metaname.
+---@param value number The amount to transfer.
+---@param metadata string? Optional transaction metadata.
+---@return table tx The created transaction.
+function testing.MockNode:transfer(from, to, value, metadata) end
+
+---Mints a mining reward.
+---@param to string The recipient's address.
+---@param value number The reward amount.
+---@return table tx The created transaction.
+function testing.MockNode:mine(to, value) end
+
+---Deletes a transaction from the node's history. Balances are not reverted.
+---@param id number The transaction id.
+---@return boolean existed Whether the transaction existed.
+function testing.MockNode:deleteTransaction(id) end
+
+---Fetches a transaction from the node's history.
+---@param id number The transaction id.
+---@return table? tx The transaction, or nil if it doesn't exist.
+function testing.MockNode:getTransaction(id) end
+
+---Schedules a fault to be injected into upcoming requests. Faults are checked in
+---the order they were added, and each request triggers at most one fault.
+---@param fault kstream.testing.MockFault The fault to inject.
+function testing.MockNode:fail(fault) end
+
+---Removes all pending faults.
+function testing.MockNode:clearFaults() end
+
+---Closes every open socket from the node's side.
+function testing.MockNode:dropSockets() end
+
+return testing
@@ -2,9 +2,22 @@
 
 local kstream = {}
 
----An outgoing transaction.
----@class kstream.OutgoingTransaction
---
+---When an outgoing transaction may be sent.
+---@class kstream.OutgoingSchedule
+---
+---A UTC epoch, in milliseconds, before which the transaction won't be sent.
+---@field notBefore number?
+---
+---A UTC epoch, in milliseconds, after which the transaction fails with an
+---`"expired"` error instead of being sent.
+---@field expiresAt number?
+
+---An outgoing transfer of currency.
+---@class kstream.OutgoingTransfer: kstream.OutgoingSchedule
+---
+---The transaction type. Transactions without a type are transfers.
+---@field type "transfer"?
+---
 ---The transaction amount.
 ---@field amount number
 ---
@@ -15,19 +28,181 @@ local kstream = {}
 ---@field privateKey string
 ---
 ---Transaction CommonMeta key-value pairs.
+---
+---Pairs are written in the order of `metaOrder`, then the rest in key order, followed
+---by a `ref` record used by kstream to track the transaction. Keys can't contain `"="`
+---or `";"`, can't start with a quote, and can't be `"ref"`. Values that contain `";"`
+---or start with a quote are quoted, escaping quotes and backslashes inside of them
+---with a backslash.
 ---@field meta table<string, string>
 ---
+---The order to write keys of `meta` in. Keys left out follow in key order.
+---
+---```lua
+---meta = { message = "Thanks!", order = "42" },
+---metaOrder = { "order", "message" },
+---```
+---@field metaOrder string[]?
+---
+---Custom user data.
+---@field ud any
+
+---An outgoing purchase of a name.
+---@class kstream.OutgoingNamePurchase: kstream.OutgoingSchedule
+---
+---@field type "name_purchase"
+---
+---The name to purchase, without suffix.
+---@field name string
+---
+---The buyer's private key.
+---@field privateKey string
+---
+---Custom user data.
+---@field ud any
+
+---An outgoing transfer of a name to another address.
+---@class kstream.OutgoingNameTransfer: kstream.OutgoingSchedule
+---
+---@field type "name_transfer"
+---
+---The name to transfer, without suffix.
+---@field name string
+---
+---The address of the new owner.
+---@field to string
+---
+---The current owner's private key.
+---@field privateKey string
+---
+---Custom user data.
+---@field ud any
+
+---An outgoing change of a name's A record.
+---@class kstream.OutgoingNameRecordChange: kstream.OutgoingSchedule
+---
+---@field type "name_a_record"
+---
+---The name to change, without suffix.
+---@field name string
+---
+---The new A record, or nil to clear it.
+---@field a string?
+---
+---The owner's private key.
+---@field privateKey string
+---
 ---Custom user data.
 ---@field ud any
 
+---An outgoing transaction, one of several types.
+---@alias kstream.OutgoingTransaction kstream.OutgoingTransfer | kstream.OutgoingNamePurchase | kstream.OutgoingNameTransfer | kstream.OutgoingNameRecordChange
+
 ---An error from an outgoing transaction failure.
 ---@class kstream.SendError
 ---
----An error code.
+---An error code. This is either the node's error code, `"server_error"` for
+---server errors without one, `"cancelled"` for transactions cancelled with
+---`HookContext.cancelSend()`, `"expired"` for transactions that weren't sent
+---before their `expiresAt`, or `"stuck"` for transactions given up on by the
+---`onSendStuck` hook.
 ---@field error string
 ---
 ---A human-readable message explaining the error.
 ---@field message string?
+---
+---What kind of failure this is.
+---@field category kstream.SendErrorCategory
+---
+---How many times the stream tried to send the transaction.
+---@field attempts number
+
+---The kind of an outgoing transaction failure.
+---@alias kstream.SendErrorCategory
+---| "permanent" # Happens again no matter how many times it is retried.
+---| "retryable" # May go away later, like rate limiting or server errors.
+---| "funds" # Happens because the sender doesn't have enough Krist.
+
+---A way of checking whether a transfer with an unknown outcome went through.
+---@alias kstream.SentCheck
+---| "search" # Looks its ref up through the node's metadata search. If the node refuses it, the transfer stays unknown until it gets stuck, and the refusal is shown on its outbox entry as `checkError`.
+---| "history" # Scans the sender's recent transactions for its ref.
+---| "auto" # Tries the search first and scans the history if the node refuses it.
+
+---How a funds guard handles transfers that their sender can't cover.
+---@alias kstream.FundsGuardMode
+---| "reject" # Doesn't enqueue them.
+---| "defer" # Enqueues them, but holds them back until the sender can cover them.
+
+---How the stream retries failed outgoing transactions.
+---@class kstream.RetryPolicy
+---
+---The maximum amount of times to try sending a transaction.
+---@field maxAttempts number?
+---
+---The time to wait before the first retry, in seconds. Doubles on every retry.
+---@field baseDelay number?
+---
+---The maximum time to wait between retries, in seconds.
+---@field maxDelay number?
+---
+---Whether to also retry transactions that failed because of a lack of funds.
+---@field retryFunds boolean?
+
+---Limits on how much a sender may spend, checked as transactions are enqueued.
+---@class kstream.SpendingLimit
+---
+---The most Krist a single transfer may send.
+---@field maxAmount number?
+---
+---The length of the rolling window for the limits below, in seconds.
+---@field window number?
+---
+---The most Krist that may be sent within the window.
+---@field windowAmount number?
+---
+---The most transactions that may be enqueued within the window.
+---@field windowCount number?
+
+---A side-effect job enqueued with `HookContext.enqueueJob()`.
+---@class kstream.Job
+---
+---A UUID for identifying the job.
+---@field id string
+---
+---The kind of job, which picks its handler.
+---@field kind string
+---
+---Data for the handler.
+---@field payload any
+---
+---How many times the handler has failed, if any.
+---@field attempts number?
+---
+---A UTC epoch, in milliseconds, before which a failed job won't be retried.
+---@field retryAt number?
+---
+---The error from the handler's last failure, if any.
+---@field lastError string?
+
+---A running balance of an address, kept from the transactions in the stream.
+---@class kstream.Ledger
+---
+---The address.
+---@field address string
+---
+---The balance as of the last transaction popped from the stream.
+---@field balance number
+---
+---The total Krist received since the ledger started.
+---@field totalIn number
+---
+---The total Krist sent or spent since the ledger started.
+---@field totalOut number
+---
+---The ID of the address's latest transaction when the balance was fetched, or -1 if
+---it had none. Transactions up to it are already in the balance, so they're skipped.
+---@field since number?
 
 ---@class kstream.BaseTransaction
 ---
@@ -62,7 +237,7 @@ local kstream = {}
 ---
 ---Older software may send transfers by specifying the destination on the metadata
 ---instead of the receiver's address field. These transfers will *not* set this
----field.
+---field. Use `target` to handle both kinds of transfers.
 ---@field sent_name string?
 ---
 ---The metaname (part before the `"@"`) of the recipient of this transaction, if it
@@ -80,7 +255,41 @@ local kstream = {}
 ---- Parsing `"="` yields `{[""] = ""}`.
 ---- Parsing `"a;b=c;d"` yields `{["b"] = "c"}`.
 ---- Parsing `"Powered by = Kristify"` yields `{["Powered by "] = " Kristify"}`
+---- Parsing `'a="b;c";d=e'` yields `{["a"] = "b;c", ["d"] = "e"}`.
+---- Parsing `'a="b\\"c"'` yields `{["a"] = 'b"c'}`.
+---- Parsing `'a="b'` yields `{["a"] = '"b'}` since the quote isn't terminated.
 ---@field kv table<string, string>
+---
+---All CommonMeta records specified in transaction metadata, in order. Unlike
+---`kv`, this includes free-form records such as messages or a leading
+---`"metaname@name.kst"` destination. Empty records are skipped.
+---@field records kstream.MetaRecord[]
+---
+---The name this transfer was sent to, if any.
+---
+---This is taken from `sent_name` and `sent_metaname` when the node sets them.
+---Otherwise, it is taken from the first metadata record if it has the form
+---`"metaname@name.kst"` or `"name.kst"`, which is where older software specifies
+---the destination.
+---@field target kstream.TransferTarget?
+
+---A CommonMeta record, either a key-value pair or a free-form value.
+---@class kstream.MetaRecord
+---
+---The record key, or nil if the record is free-form.
+---@field key string?
+---
+---The record value.
+---@field value string
+
+---The name a transfer was sent to.
+---@class kstream.TransferTarget
+---
+---The metaname (part before the `"@"`), if any.
+---@field metaname string?
+---
+---The name, without suffix.
+---@field name string
 
 ---A mining reward issued to an address.
 ---@class kstream.MiningReward: kstream.BaseTransaction
@@ -135,6 +344,67 @@ local kstream = {}
 ---A Krist transacton, one of several types.
 ---@alias kstream.Transaction kstream.Transfer | kstream.MiningReward | kstream.NamePurchase | kstream.NameTransfer | kstream.NameRecordChange
 
+---Filters that narrow down a stream's transactions.
+---@class kstream.TransactionFilters
+---
+---Transaction types to keep, such as `"transfer"` or `"name_purchase"`.
+---@field types string[]?
+---
+---Whether to keep transactions sent to the stream's addresses (`"in"`), sent from
+---them (`"out"`), or both. Defaults to `"both"`. Needs the stream to have addresses.
+---@field direction "in"|"out"|"both"|nil
+---
+---A name, without suffix, to keep transfers sent to. Both transfers sent through the
+---name and transfers declaring it in their metadata count, but the latter only if they
+---were sent to one of the stream's addresses, since anyone can declare any name.
+---@field name string?
+---
+---A metaname to keep transfers sent to. Needs `name` to be set.
+---@field metaname string?
+
+---Changes to make to a stream's configuration. Fields left as nil are kept.
+---@class kstream.StreamConfig
+---
+---The Krist node URL or list of URLs to use, in order of preference.
+---@field endpoint string|string[]|nil
+---
+---The address or list of addresses to follow, or false to follow all of them.
+---@field address string|string[]|false|nil
+---
+---Whether to include mining reward transactions.
+---@field includeMined boolean?
+---
+---Extra filters for the stream's transactions, or false to remove them.
+---@field filters kstream.TransactionFilters|false|nil
+
+---The status of an outgoing transaction.
+---@alias kstream.OutboxStatus
+---| "pending" # The transaction is definitely pending and hasn't been sent.
+---| "unknown" # We don't know whether the transaction has been sent or not.
+---| "sent" # The transaction has definitely been sent.
+---| "cancelled" # The transaction has been cancelled and won't be sent.
+
+---A read-only view of an outbox entry.
+---@class kstream.OutboxEntry
+---
+---The UUID returned when the transaction was enqueued.
+---@field id string
+---
+---The transaction status.
+---@field status kstream.OutboxStatus
+---
+---The sender's address.
+---@field from string
+---
+---A copy of the outgoing transaction, without its private key.
+---@field transaction kstream.OutgoingTransaction
+---
+---The UTC epoch, in milliseconds, since which the status has been unknown.
+---@field unknownSince number?
+---
+---Why the node refused to check whether the transaction was sent, if it did.
+---@field checkError string?
+
 ---Methods and fields usable by a hook to manipulate stream state.
 ---@class kstream.HookContext
 ---
@@ -227,10 +497,249 @@ kstream.HookContext = {}
 ---stream:run()
 ---```
 ---
+---Besides transfers, name operations can be enqueued by setting the `type` field
+---to `"name_purchase"`, `"name_transfer"` or `"name_a_record"`:
+---
+---```lua
+---ctx:enqueueSend({ type = "name_purchase", name = "myshop", privateKey = pkey })
+---ctx:enqueueSend({
+---    type = "name_a_record",
+---    name = "myshop",
+---    a = "https://example.com",
+---    privateKey = pkey,
+---})
+---```
+---
+---The transaction is checked before being enqueued. Transactions that the node
+---would always reject, such as transfers with a malformed recipient, a non-integer
+---amount or metadata that is too long, raise an error inside the hook instead.
+---
+---Sending can be delayed until a UTC epoch with `notBefore`, and given up on after
+---another with `expiresAt`. Expired transactions are reported through
+---`onSendFailure` with an `"expired"` error. A delayed transaction doesn't hold
+---back other transactions from the same address.
+---
+---```lua
+---local wages = { to = worker, amount = 100, meta = {}, privateKey = pkey }
+---wages.notBefore = os.epoch("utc") + 8 * 60 * 60 * 1000
+---ctx:enqueueSend(wages)
+---```
+---
+---Transactions from senders with a spending limit are counted towards it. A
+---transaction that breaks the limit trips it, and while it is tripped, this method
+---refuses transactions from the sender by returning nil. See `setSpendingLimit()`
+---for more info.
+---
+---If the stream has a `fundsGuard`, transfers are checked against their sender's
+---available balance, which leaves out transfers still waiting in the outbox. A
+---transfer that can't be covered is either rejected, making this method return
+---nil, or deferred until the sender can cover it. Transfers are deferred too when
+---the balance can't be fetched.
+---
 ---@param tx kstream.OutgoingTransaction The transaction.
----@return string uuid A UUID for tracking the queued transaction with events.
+---@return string? uuid A UUID for tracking the queued transaction with events, or nil if a spending limit or the funds guard refused it.
 function kstream.HookContext:enqueueSend(tx) end
 
+---Cancels a transaction that hasn't been sent yet.
+---
+---Only transactions that are still waiting in the outbox can be cancelled. Once the
+---stream starts sending a transaction, it can no longer be taken back. Cancelled
+---transactions are reported through `onSendFailure` with a `"cancelled"` error,
+---so bookkeeping for them can be rolled back in the same place as for failures.
+---
+---A cancelled transaction no longer counts towards its sender's spending limit.
+---
+---```lua
+---stream:begin(function(ctx)
+---    if ctx:cancelSend(uuid) then print("Payout cancelled") end
+---end)
+---```
+---
+---@param id string The UUID returned by `enqueueSend()`.
+---@return boolean cancelled Whether the transaction was cancelled.
+function kstream.HookContext:cancelSend(id) end
+
+---Replaces a transaction that hasn't been sent yet with another one.
+---
+---Like `cancelSend()`, this only works for transactions that are still waiting in the
+---outbox. The transaction keeps its UUID and its place in the outbox.
+---
+---The new transaction goes through the same spending limit and funds guard checks as
+---in `enqueueSend()`. If they refuse it, the old transaction is kept. Otherwise, the
+---new transaction counts towards the spending limit in place of the old one, as if it
+---had been enqueued at the same time.
+---
+---@param id string The UUID returned by `enqueueSend()`.
+---@param tx kstream.OutgoingTransaction The new transaction.
+---@return boolean? amended Whether the transaction was replaced, or nil if a spending limit or the funds guard refused the new one.
+function kstream.HookContext:amendSend(id, tx) end
+
+---Adds a schedule that enqueues a transaction on a fixed interval.
+---
+---Occurrences are enqueued by the stream as they come due, atomically with moving
+---the schedule on to its next occurrence, so they are neither skipped nor repeated
+---across restarts. When the stream runs again after some downtime, the last 10
+---occurrences that came due are enqueued and older ones are skipped. An occurrence
+---refused by a spending limit or the funds guard stays due, and is retried every 30
+---seconds until it is admitted.
+---
+---The transaction's `notBefore` and `expiresAt` apply to the first occurrence, and
+---move along with every later one.
+---
+---```lua
+----- Pay rent every week, starting now.
+---ctx:addSchedule({
+---    to = "kpg2310002",
+---    amount = 250,
+---    meta = { message = "Rent" },
+---    privateKey = pkey,
+---}, 7 * 24 * 60 * 60)
+---```
+---
+---@param tx kstream.OutgoingTransaction The transaction to enqueue on every occurrence.
+---@param interval number The time between occurrences, in seconds. Must be at least 60.
+---@param start number? The UTC epoch of the first occurrence in milliseconds. Defaults to the current time.
+---@return string uuid A UUID for identifying the schedule.
+function kstream.HookContext:addSchedule(tx, interval, start) end
+
+---Pauses or resumes a schedule. Occurrences that come due while a schedule is paused
+---are skipped.
+---@param id string The UUID returned by `addSchedule()`.
+---@param paused boolean? Whether to pause the schedule, or resume it if false. Defaults to true.
+---@return boolean exists Whether the schedule exists.
+function kstream.HookContext:pauseSchedule(id, paused) end
+
+---Removes a schedule. Occurrences that were already enqueued are kept.
+---@param id string The UUID returned by `addSchedule()`.
+---@return boolean existed Whether the schedule existed.
+function kstream.HookContext:removeSchedule(id) end
+
+---Gets a value from the stream's store.
+---
+---The store keeps application data, such as inventory or credit balances, in the
+---stream's state. Values written with `set()` are committed together with
+---everything else the hook does, so they change exactly once per transaction, with
+---no need for `onPrepare` or external storage.
+---
+---```lua
+---function stream.onTransaction(ctx, tx)
+---    if tx.type ~= "transfer" or tx.to ~= address then return end
+---    local credits = ctx:get("credits") or {}
+---    credits[tx.from] = (credits[tx.from] or 0) + tx.value
+---    ctx:set("credits", credits)
+---end
+---```
+---
+---@param key string The key.
+---@return any value A copy of the value, or nil if there is none. This includes values set earlier in the same hook.
+function kstream.HookContext:get(key) end
+
+---Sets a value in the stream's store. See `get()` for more info.
+---@param key string The key.
+---@param value string|number|boolean|table The value. Tables are copied, and must be serializable with `textutils.serialize`.
+function kstream.HookContext:set(key, value) end
+
+---Deletes a value from the stream's store.
+---@param key string The key.
+---@return boolean existed Whether there was a value.
+function kstream.HookContext:delete(key) end
+
+---Enqueues a side-effect job to run after the hook commits.
+---
+---Jobs are the counterpart of `enqueueSend()` for actions other than sending Krist,
+---such as dispensing items. Like transactions, they are committed together with the
+---rest of the hook, and the stream runs them in the background with the handler in
+---`Stream.jobHandlers` for their kind. A job whose handler errors is retried later,
+---so handlers run *at least once* and should be safe to run again after a crash.
+---Failing jobs can be inspected with `Stream.getJobs()`.
+---
+---```lua
+---stream.jobHandlers.dispense = function(payload)
+---    assert(turtle.select(payload.slot) and turtle.drop(payload.count))
+---end
+---
+---function stream.onTransaction(ctx, tx)
+---    if tx.type ~= "transfer" or tx.to ~= address then return end
+---    ctx:enqueueJob("dispense", { slot = 1, count = tx.value })
+---end
+---```
+---
+---@param kind string The kind of job.
+---@param payload any Data for the handler. Tables are copied, and must be serializable with `textutils.serialize`.
+---@return string uuid A UUID for identifying the job.
+function kstream.HookContext:enqueueJob(kind, payload) end
+
+---Sets or removes the spending limit of a sender. The limit acts as a circuit
+---breaker against hooks that send out more than they should.
+---
+---When a transaction enqueued with `enqueueSend()` breaks the limit, the limit
+---trips. While tripped, `enqueueSend()` refuses all transactions from the sender,
+---the sender's transactions already in the outbox are held back, and the stream runs
+---its `onLimitExceeded` hook. Everything resumes once the limit is reset with
+---`resetSpendingLimit()`.
+---
+---```lua
+----- At most 100 KST per refund, and 1000 KST or 50 refunds per hour.
+---ctx:setSpendingLimit(address, {
+---    maxAmount = 100,
+---    window = 60 * 60,
+---    windowAmount = 1000,
+---    windowCount = 50,
+---})
+---```
+---
+---Changing a limit keeps whether it has tripped, along with the transactions
+---already counted towards it.
+---
+---@param address string The sender's address.
+---@param limit kstream.SpendingLimit? The limit, or nil to remove it.
+function kstream.HookContext:setSpendingLimit(address, limit) end
+
+---Resets a tripped spending limit, letting the sender's transactions through
+---again. The transactions counted towards the limit are forgotten.
+---@param address string The sender's address.
+---@return boolean tripped Whether the limit had tripped.
+function kstream.HookContext:resetSpendingLimit(address) end
+
+---Lists the transactions in the outbox, in the order they were enqueued. This
+---includes transactions enqueued earlier in the same hook.
+---@return kstream.OutboxEntry[] entries Copies of the outbox entries, without private keys.
+function kstream.HookContext:getOutbox() end
+
+---Gets the status of a transaction in the outbox.
+---@param id string The UUID returned by `enqueueSend()`.
+---@return kstream.OutboxStatus? status The status, or nil if the transaction has left the outbox.
+function kstream.HookContext:getSendStatus(id) end
+
+---Returns the amount of transactions in the outbox that may still be sent.
+---@return number count
+function kstream.HookContext:getPendingCount() end
+
+---Returns the total amount of Krist that may still be sent, by sender address.
+---@return table<string, number> amounts
+function kstream.HookContext:getPendingAmounts() end
+
+---Gets the running balance the stream keeps for an address it follows. The
+---balance includes the transaction the hook is running for, if any, but not
+---transactions still waiting in the outbox.
+---
+---```lua
+---local ledger = ctx:getLedger(address)
+---local pending = ctx:getPendingAmounts()[address] or 0
+---if ledger and ledger.balance - pending >= change then
+---    ctx:enqueueSend({
+---        to = tx.from,
+---        amount = change,
+---        meta = {},
+---        privateKey = pkey,
+---    })
+---end
+---```
+---
+---@param address string The address.
+---@return kstream.Ledger? ledger A copy of the ledger, or nil if the address has none. See `Stream.reconcile()` for how ledgers start.
+function kstream.HookContext:getLedger(address) end
+
 ---A disk-backed persistent stream of transactions.
 ---
 ---Streams' states are stored in a directory. You can create a new stream using
@@ -287,19 +796,95 @@ function kstream.HookContext:enqueueSend(tx) end
 ---    if refund then ctx:enqueueSend(refund) end
 ---end
 ---```
+---
+---Outgoing transactions are sent in lanes, one per sending address. Transactions from
+---the same address are sent in the order they were enqueued, but transactions from
+---different addresses may be sent at the same time, so a slow send doesn't hold back
+---the others.
+---
+---When the stream follows an address that sends transfers, they come back through
+---`onTransaction` too. These get the ID of the outbox entry they were sent from:
+---
+---```lua
+---function stream.onTransaction(ctx, tx, outboxId)
+---    if outboxId then return end -- One of our own transfers.
+---    print("A transfer is happening from", tx.from, "to", tx.to)
+---end
+---```
 ---@class kstream.Stream
 ---
 ---A UUID for identifying the stream.
 ---@field id string
 ---
----A hook to run on every new incoming transaction.
----@field onTransaction fun(ctx: kstream.HookContext, tx: kstream.Transaction)
+---A hook to run on every new incoming transaction. Transfers sent from this
+---stream's outbox also get the ID returned by `HookContext.enqueueSend()`.
+---@field onTransaction fun(ctx: kstream.HookContext, tx: kstream.Transaction, outboxId: string?)
 ---
----A hook to run on every successful outgoing transaction.
----@field onSendSuccess fun(ctx: kstream.HookContext, tx: kstream.OutgoingTransaction, uuid: string)
+---A hook to run on every successful outgoing transaction. Transfers also get the
+---node's record of the transaction when it could be retrieved.
+---@field onSendSuccess fun(ctx: kstream.HookContext, tx: kstream.OutgoingTransaction, uuid: string, record: kstream.Transaction?)
 ---
----A hook to run on every failed outgoing transaction.
+---A hook to run on every failed or cancelled outgoing transaction.
 ---@field onSendFailure fun(ctx: kstream.HookContext, tx: kstream.OutgoingTransaction, uuid: string, err: kstream.SendError)
+---
+---How failed outgoing transactions are retried. Fields left as nil take their
+---default values: 5 attempts, 5 seconds of base delay, 300 seconds of maximum
+---delay, and no retries for funds failures.
+---
+---```lua
+---stream.retryPolicy = { maxAttempts = 10, retryFunds = true }
+---```
+---@field retryPolicy kstream.RetryPolicy
+---
+---How long, in seconds, a transaction may stay with an unknown outcome before the
+---`onSendStuck` hook is asked about it, and between later asks.
+---@field stuckTimeout number
+---
+---A hook to run when a transaction's outcome has been unknown for longer than
+---`stuckTimeout`, usually because the network keeps failing after submitting it.
+---Returning true gives up on the transaction, which then fails with a `"stuck"`
+---error even though it may have gone through. Otherwise, sending keeps going.
+---
+---```lua
+---function stream.onSendStuck(tx, uuid, since)
+---    pageOperator("payout " .. uuid .. " has been in limbo since " .. since)
+---end
+---```
+---@field onSendStuck (fun(tx: kstream.OutgoingTransaction, uuid: string, since: number): boolean?)?
+---
+---How to check whether a transfer with an unknown outcome went through. See
+---`kstream.SentCheck` for the options.
+---
+---```lua
+---stream.sentCheck = "history"
+---```
+---@field sentCheck kstream.SentCheck
+---
+---What `HookContext.enqueueSend()` does with transfers that their sender's
+---available balance can't cover, or nil to enqueue them anyway. See
+---`getAvailableBalance()` for how the balance is worked out.
+---
+---```lua
+---stream.fundsGuard = "defer"
+---```
+---@field fundsGuard kstream.FundsGuardMode?
+---
+---A hook to run when a sender's spending limit trips. It runs once per trip, and
+---the sender's transactions are held back until the limit is reset with
+---`HookContext.resetSpendingLimit()`.
+---
+---```lua
+---function stream.onLimitExceeded(ctx, address, limit)
+---    pageOperator(address .. " broke its " .. limit .. " spending limit")
+---end
+---```
+---@field onLimitExceeded fun(ctx: kstream.HookContext, address: string, limit: string)?
+---
+---Handlers for the jobs enqueued with `HookContext.enqueueJob()`, by kind. A job
+---leaves the stream once its handler returns without erroring. Jobs of a kind with no
+---handler fail, and are retried until one is set. Handlers get a copy of the payload,
+---so changes to it don't carry over to retries.
+---@field jobHandlers table<string, fun(payload: any, id: string)>
 kstream.Stream = {}
 
 ---Opens a stream from a given directory.
@@ -324,11 +909,69 @@ function kstream.Stream.open(dir, revision) end
 ---end
 ---```
 ---
+---A stream can also follow several addresses at once. Transactions between two of
+---the addresses are delivered only once:
+---
+---```lua
+---kstream.Stream.create("/stream", "https://krist.dev", { shop, payroll, cold })
+---```
+---
+---Filters can narrow the stream down further. Transactions left out by them are
+---skipped without running any hooks:
+---
+---```lua
+---kstream.Stream.create("/stream", "https://krist.dev", "kpg2310002", false, {
+---    types = { "transfer" },
+---    direction = "in",
+---})
+---```
+---
+---A name filter keeps only transfers sent to that name, either through the name
+---itself or by declaring it in their metadata. The latter only count if they were
+---sent to one of the stream's addresses:
+---
+---```lua
+---kstream.Stream.create("/stream", "https://krist.dev", "kpg2310002", false, {
+---    name = "shop1",
+---})
+---```
+---
+---Passing several endpoints makes the stream fail over to later ones in the list
+---while earlier ones are down:
+---
+---```lua
+---kstream.Stream.create("/stream", { "https://krist.dev", mirror }, "kpg2310002")
+---```
+---
 ---@param dir string The directory to store the stream at.
----@param endpoint string The Krist node URL to use for this stream.
----@param address string? The address to fetch transactions for, or all addresses if nil.
+---@param endpoint string|string[] The Krist node URL or list of URLs to use for this stream, in order of preference.
+---@param address string|string[]|nil The address or list of addresses to fetch transactions for, or all addresses if nil.
 ---@param includeMined boolean? Whether to include mining reward transactions.
-function kstream.Stream.create(dir, endpoint, address, includeMined) end
+---@param filters kstream.TransactionFilters? Extra filters for the stream's transactions.
+function kstream.Stream.create(dir, endpoint, address, includeMined, filters) end
+
+---Changes the configuration of an existing stream, keeping its position and boxes.
+---The stream must not be open while doing so.
+---
+---```lua
+---local warning = kstream.Stream.reconfigure("/stream", {
+---    endpoint = { "https://krist.dev", mirror },
+---    address = false,
+---})
+---if warning then printError(warning) end
+---```
+---
+---Widening the stream's set of transactions is safe, since only transactions after
+---the current position are delivered. Narrowing it is allowed, but the transactions
+---left out will never reach the hooks, so a warning is returned.
+---
+---Newly followed addresses get a ledger, and the ledgers of addresses that are no
+---longer followed are dropped. See `Stream.reconcile()` for more info.
+---
+---@param dir string The directory the stream is stored at.
+---@param config kstream.StreamConfig The fields to change.
+---@return string? warning A warning about the change, or nil if there is none.
+function kstream.Stream.reconfigure(dir, config) end
 
 ---Closes open Krist sockets to prevent them from lingering after the stream.
 ---
@@ -345,18 +988,105 @@ function kstream.Stream:run() end
 ---false in around 30 seconds after the node is down.
 ---
 ---@return boolean isUp Whether the node is up since the last check.
+---@return string endpoint The endpoint that last responded to the stream.
 function kstream.Stream:isUp() end
 
+---Lists the committed transactions in the outbox, in the order they were enqueued.
+---
+---```lua
+---for _, entry in ipairs(stream:getOutbox()) do
+---    print(entry.id, entry.status, entry.from, entry.transaction.amount)
+---end
+---```
+---
+---@return kstream.OutboxEntry[] entries Copies of the outbox entries, without private keys.
+function kstream.Stream:getOutbox() end
+
+---Gets the status of a committed transaction in the outbox.
+---
+---Transactions leave the outbox once their `onSendSuccess` or `onSendFailure` hook
+---commits, so nil means the transaction has been dealt with.
+---
+---@param id string The UUID returned by `HookContext.enqueueSend()`.
+---@return kstream.OutboxStatus? status The status, or nil if the transaction has left the outbox.
+function kstream.Stream:getSendStatus(id) end
+
+---Returns the amount of committed transactions that may still be sent.
+---@return number count
+function kstream.Stream:getPendingCount() end
+
+---Returns the total amount of Krist that may still be sent, by sender address.
+---@return table<string, number> amounts
+function kstream.Stream:getPendingAmounts() end
+
+---Gets a committed value from the stream's store. Values can only be written from
+---hooks, with `HookContext.set()`.
+---@param key string The key.
+---@return any value A copy of the value, or nil if there is none.
+function kstream.Stream:get(key) end
+
+---Lists the committed jobs that haven't succeeded yet, in the order they were
+---enqueued. Jobs that failed carry their attempt count and last error.
+---
+---```lua
+---for _, job in ipairs(stream:getJobs()) do
+---    if job.lastError then print(job.kind, job.attempts, job.lastError) end
+---end
+---```
+---
+---@return kstream.Job[] jobs Copies of the jobs.
+function kstream.Stream:getJobs() end
+
+---Gets the running balance the stream keeps for an address it follows, as of the
+---last committed transaction.
+---@param address string The address.
+---@return kstream.Ledger? ledger A copy of the ledger, or nil if the address has none.
+function kstream.Stream:getLedger(address) end
+
+---Compares the running balances of the addresses the stream follows with the
+---node's, and reports the difference.
+---
+---The stream keeps a ledger with the balance of every address it follows, updated
+---with each transaction together with the hooks' commits. Ledgers start from the
+---node's balance when the stream starts following an address. Addresses without a
+---ledger, such as in streams made by older versions, get one from this method.
+---
+---Transactions the stream hasn't reached yet also show up as drift, so this is
+---best called while the stream is caught up. Streams that leave out mined
+---transactions also drift by the mining rewards of their addresses.
+---
+---```lua
+---for address, drift in pairs(stream:reconcile()) do
+---    if drift ~= 0 then printError(address .. " drifted by " .. drift) end
+---end
+---```
+---
+---@param adjust boolean? Whether to set the ledgers to the node's balances afterwards. The balances are tied to a transaction, so the ledgers stay exact afterwards.
+---@param timeout number? A timeout to give up fetching balances.
+---@return table<string, number> drift The node's balance minus the ledger's, by address. Addresses whose ledger just started or whose balance couldn't be fetched are left out.
+function kstream.Stream:reconcile(adjust, timeout) end
+
 ---Fetches an account's balance.
 ---
----This method returns nil if the account doesn't exist, the timeout value is
----reached, or another error is encountered.
+---This method returns 0 if the node has never seen the account, and nil if the
+---timeout value is reached or another error is encountered.
 ---
 ---@param address string The address to look up.
 ---@param timeout number? A timeout to give up looking.
 ---@return number? balance The balance, or nil on failure.
 function kstream.Stream:getBalance(address, timeout) end
 
+---Fetches an account's balance, minus the Krist it has waiting in the outbox.
+---
+---Transactions with an unknown outcome are also subtracted, even though the node
+---may have already taken them out of the balance, so the result errs on the low
+---side.
+---
+---@param address string The address to look up.
+---@param timeout number? A timeout to give up looking.
+---@return number? balance The available balance, or nil on failure.
+function kstream.Stream:getAvailableBalance(address, timeout) end
+
 ---Executes an anonymous hook.
 ---
 ---This method yields to acquire the state mutex before running the hook. If the
@@ -387,7 +1117,7 @@ function kstream.Stream:begin(fn, timeout) end
 ---
 ---@param tx kstream.OutgoingTransaction The transaction.
 ---@param timeout number? A timeout to give up waiting for the state mutex.
----@return string? uuid The local transaction tracker UUID, or nil on timeout.
+---@return string? uuid The local transaction tracker UUID, or nil on timeout or if the funds guard rejected the transaction.
 function kstream.Stream:send(tx, timeout) end
 
 ---Derives a v2 address from a private key.
@@ -397,12 +1127,18 @@ function kstream.Stream:send(tx, timeout) end
 function kstream.makev2address(key, prefix) end
 
 ---Makes a refund for a transfer.
+---
+---The refund goes to the address or name in the transfer's `return` meta field, or
+---to its sender if there is none. A `return` field that isn't a valid address or name
+---makes this return nil instead of a refund that `HookContext.enqueueSend()` would
+---reject with an error.
+---
 ---@param privateKey string The private key of the receiver.
 ---@param address string The address of the matching private key, for efficiency.
 ---@param transfer kstream.Transfer The incoming transfer.
 ---@param meta table<string, string>? Extra metadata to append.
 ---@param ud any Extra optional user data.
----@return kstream.OutgoingTransaction? out The refund outgoing transfer to set, or nil when unsafe to do so.
+---@return kstream.OutgoingTransfer? out The refund outgoing transfer to set, or nil when unsafe or impossible to do so.
 function kstream.makeRefund(privateKey, address, transfer, meta, ud) end
 
 return kstream
@@ -0,0 +1,50 @@
+import * as expect from "cc/expect";
+import sha256 from "./sha256";
+import { hex } from "./util";
+
+function addrByte(byte: number) {
+    const n = 48 + math.floor(byte / 7);
+    return string.char(n + 39 > 122 ? 101 : n > 57 ? n + 39 : n);
+}
+
+/**
+ * Derives a v2 address from a private key.
+ * @param key The private key to derive.
+ * @param prefix An optional address prefix, defaults to `"k"`.
+ * @returns The address.
+ */
+export function makev2address(this: void, key: string, prefix = "k"): string {
+    expect(1, key, "string");
+    expect(2, prefix, "string");
+
+    let stick = sha256(hex(sha256(key)));
+    const protein = new LuaMap<number, number>();
+    for (const i of $range(0, 8)) {
+        protein.set(i, string.byte(stick));
+        stick = sha256(hex(sha256(hex(stick))));
+    }
+
+    let n = 1;
+    const out = [prefix];
+    while (n <= 8) {
+        const link = string.byte(stick, n) % 9;
+        const byte = protein.get(link);
+        if (byte) {
+            out.push(addrByte(byte));
+            protein.delete(link);
+            n++;
+        } else {
+            stick = sha256(hex(stick));
+        }
+    }
+
+    for (const i of $range(0, 8)) {
+        const byte = protein.get(i);
+        if (byte) {
+            out.push(addrByte(byte));
+            return table.concat(out);
+        }
+    }
+
+    throw "unreachable";
+}
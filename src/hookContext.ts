@@ -1,6 +1,33 @@
-import { copy } from "./util";
+import * as expect from "cc/expect";
+import {
+    copy,
+    isAddress,
+    isName,
+    MAX_METADATA_LENGTH,
+    parseNameRecipient,
+} from "./util";
+import { makev2address } from "./address";
+import { encodeMeta, isValidMetaKey } from "./transaction";
 import { uuid4 } from "./uuid";
-import { Boxes, OutboxStatus, OutgoingTransaction, State } from "./state";
+import {
+    admitSpend,
+    Boxes,
+    clearSpends,
+    countPending,
+    findLedger,
+    findLimit,
+    findOutboxEntry,
+    getOutboxStatus,
+    Ledger,
+    OutboxEntryView,
+    OutboxStatus,
+    OutgoingTransaction,
+    refundSpend,
+    SpendingLimit,
+    State,
+    sumPending,
+    viewOutbox,
+} from "./state";
 import { HeldMutex } from "./mutex";
 
 export enum HookContextStatus {
@@ -62,6 +89,7 @@ export class InnerHookContext {
         this.state.state.committed = this.uncommitted;
         this.state.state.prepared = undefined;
         this.state.commit();
+        os.queueEvent("kstream_committed");
     }
 
     /** Discards all changes performed and closes this view. */
@@ -76,10 +104,130 @@ export class InnerHookContext {
     }
 }
 
+/**
+ * Checks the type of a field like `expect.field()` does, but raises the error one
+ * level further up, at the caller of the checker calling this.
+ */
+function expectField(tbl: object, index: string, ...types: string[]) {
+    const t = type((<LuaMap<string, unknown>><unknown>tbl).get(index));
+    if (types.includes(t)) { return; }
+    const expected = types.filter((name) => name != "nil").join(" or ");
+    error(string.format("bad field '%s' (expected %s, got %s)", index, expected, t), 4);
+}
+
+/**
+ * Checks that an outgoing transaction is well-formed and errors otherwise. The error
+ * is raised at the caller's caller, i.e. the hook calling into the context.
+ * @param tx The transaction.
+ * @param ref The ref UUID that will be attached to the transaction's metadata.
+ */
+function checkOutgoing(tx: OutgoingTransaction, ref: string) {
+    expectField(tx, "privateKey", "string");
+    if (tx.privateKey == "") { error("bad field 'privateKey' (empty key)", 3); }
+    expectField(tx, "notBefore", "number", "nil");
+    expectField(tx, "expiresAt", "number", "nil");
+
+    if (tx.type == "name_purchase" || tx.type == "name_transfer") {
+        expectField(tx, "name", "string");
+        if (!isName(tx.name)) { error("bad field 'name' (invalid name)", 3); }
+        if (tx.type == "name_transfer") {
+            expectField(tx, "to", "string");
+            if (!isAddress(tx.to)) { error("bad field 'to' (invalid address)", 3); }
+        }
+    } else if (tx.type == "name_a_record") {
+        expectField(tx, "name", "string");
+        expectField(tx, "a", "string", "nil");
+        if (!isName(tx.name)) { error("bad field 'name' (invalid name)", 3); }
+        if ((tx.a || "").length > MAX_METADATA_LENGTH) {
+            error("bad field 'a' (record is too long)", 3);
+        }
+    } else if (tx.type == "transfer") {
+        expectField(tx, "to", "string");
+        expectField(tx, "amount", "number");
+        expectField(tx, "meta", "table");
+        if (!isAddress(tx.to) && !parseNameRecipient(tx.to)[0]) {
+            error("bad field 'to' (invalid address or name)", 3);
+        }
+        if (tx.amount < 1 || tx.amount % 1 != 0) {
+            error("bad field 'amount' (expected a positive integer)", 3);
+        }
+        for (const [k, v] of tx.meta) {
+            if (type(k) != "string" || type(v) != "string") {
+                error("bad field 'meta' (expected a table of strings)", 3);
+            }
+            if (!isValidMetaKey(k)) {
+                const msg = string.format("invalid or reserved key %q", k);
+                error("bad field 'meta' (" + msg + ")", 3);
+            }
+        }
+        expectField(tx, "metaOrder", "table", "nil");
+        const ordered = new LuaMap<string, boolean>();
+        for (const k of tx.metaOrder || []) {
+            if (type(k) != "string" || !tx.meta.has(k) || ordered.has(k)) {
+                error("bad field 'metaOrder' (expected distinct keys of 'meta')", 3);
+            }
+            ordered.set(k, true);
+        }
+        if (encodeMeta(tx.meta, ref, tx.metaOrder).length > MAX_METADATA_LENGTH) {
+            error("bad field 'meta' (metadata is too long)", 3);
+        }
+    } else {
+        error("bad field 'type' (unknown transaction type)", 3);
+    }
+}
+
+/**
+ * Checks that a spending limit is well-formed and errors otherwise. The error is
+ * raised at the caller's caller, i.e. the hook calling into the context.
+ */
+function checkLimit(limit: SpendingLimit) {
+    for (const field of ["maxAmount", "window", "windowAmount", "windowCount"]) {
+        expect.field(limit, field, "number", "nil");
+        const value = (<LuaMap<string, number>><unknown>limit).get(field);
+        if (value != undefined && value <= 0) {
+            error("bad field '" + field + "' (expected a positive number)", 3);
+        }
+    }
+    if ((limit.windowAmount || limit.windowCount) && !limit.window) {
+        error("bad field 'window' (expected a number with window limits)", 3);
+    }
+}
+
+/** The shortest interval a schedule can have, in seconds. */
+const MIN_SCHEDULE_INTERVAL = 60;
+
+/**
+ * The earliest UTC epoch a schedule can start at, in milliseconds. Anything earlier is
+ * most likely a start given in seconds.
+ */
+const MIN_SCHEDULE_START = 1e12;
+
+/**
+ * How a funds guard handles transfers that their sender can't cover:
+ * - `"reject"` doesn't enqueue them.
+ * - `"defer"` enqueues them, but holds them back until the sender can cover them.
+ */
+export type FundsGuardMode = "reject" | "defer";
+
+/** A check that enqueued transfers can be covered by their sender's balance. */
+export type FundsGuard = {
+    /** What to do with transfers that can't be covered. */
+    mode: FundsGuardMode,
+
+    /**
+     * Fetches an address's balance from the node, or nil on failure. Addresses the
+     * node has never seen have a balance of 0.
+     */
+    getBalance: (this: void, address: string) => number | undefined,
+};
+
 /** Methods and fields usable by a hook to manipulate stream state. */
 export class HookContext {
     private _inner: InnerHookContext;
 
+    /** The funds guard for enqueued transfers, if any. */
+    private _guard?: FundsGuard;
+
     /**
      * Sets a callback to run after the hook prepares to commit, but before it commits.
      * 
@@ -152,8 +300,9 @@ export class HookContext {
      */
     public afterCommit?: (this: void) => void;
 
-    public constructor(inner: InnerHookContext) {
+    public constructor(inner: InnerHookContext, guard?: FundsGuard) {
         this._inner = inner;
+        this._guard = guard;
     }
 
     /**
@@ -177,18 +326,490 @@ export class HookContext {
      * stream:run()
      * ```
      * 
+     * Besides transfers, name operations can be enqueued by setting the `type` field
+     * to `"name_purchase"`, `"name_transfer"` or `"name_a_record"`:
+     * 
+     * ```lua
+     * ctx:enqueueSend({ type = "name_purchase", name = "myshop", privateKey = pkey })
+     * ctx:enqueueSend({
+     *     type = "name_a_record",
+     *     name = "myshop",
+     *     a = "https://example.com",
+     *     privateKey = pkey,
+     * })
+     * ```
+     * 
+     * The transaction is checked before being enqueued. Transactions that the node
+     * would always reject, such as transfers with a malformed recipient, a non-integer
+     * amount or metadata that is too long, raise an error inside the hook instead.
+     * 
+     * Sending can be delayed until a UTC epoch with `notBefore`, and given up on after
+     * another with `expiresAt`. Expired transactions are reported through
+     * `onSendFailure` with an `"expired"` error. A delayed transaction doesn't hold
+     * back other transactions from the same address.
+     * 
+     * ```lua
+     * local wages = { to = worker, amount = 100, meta = {}, privateKey = pkey }
+     * wages.notBefore = os.epoch("utc") + 8 * 60 * 60 * 1000
+     * ctx:enqueueSend(wages)
+     * ```
+     * 
+     * Transactions from senders with a spending limit are counted towards it. A
+     * transaction that breaks the limit trips it, and while it is tripped, this method
+     * refuses transactions from the sender by returning nil. See
+     * {@link setSpendingLimit()} for more info.
+     * 
+     * If the stream has a `fundsGuard`, transfers are checked against their sender's
+     * available balance, which leaves out transfers still waiting in the outbox. A
+     * transfer that can't be covered is either rejected, making this method return
+     * nil, or deferred until the sender can cover it. Transfers are deferred too when
+     * the balance can't be fetched.
+     * 
      * @param tx The transaction.
-     * @returns A UUID for tracking the queued transaction with events.
+     * @returns A UUID for tracking the queued transaction with events, or nil if a
+     * spending limit or the funds guard refused it.
+     * @throws If the transaction is malformed.
      */
-    public enqueueSend(tx: OutgoingTransaction): string {
+    public enqueueSend(tx: OutgoingTransaction): string | undefined {
         this._inner.checkStatus("written");
+        expect(1, tx, "table");
+        const transaction = copy(tx);
+        transaction.type = transaction.type || "transfer";
+        const ref = uuid4();
+        checkOutgoing(transaction, ref);
+        const from = makev2address(transaction.privateKey);
         const id = uuid4();
+        const [admitted, awaitingFunds] = this._admit(transaction, from, id);
+        if (!admitted) { return; }
         this._inner.uncommitted.outbox.push({
             id,
             status: OutboxStatus.PENDING,
-            ref: uuid4(),
-            transaction: copy(tx),
+            ref,
+            transaction,
+            from,
+            createdAt: os.epoch("utc"),
+            awaitingFunds,
         });
         return id;
     }
+
+    /**
+     * Cancels a transaction that hasn't been sent yet.
+     * 
+     * Only transactions that are still waiting in the outbox can be cancelled. Once the
+     * stream starts sending a transaction, it can no longer be taken back. Cancelled
+     * transactions are reported through `onSendFailure` with a `"cancelled"` error,
+     * so bookkeeping for them can be rolled back in the same place as for failures.
+     *
+     * A cancelled transaction no longer counts towards its sender's spending limit.
+     * 
+     * ```lua
+     * stream:begin(function(ctx)
+     *     if ctx:cancelSend(uuid) then print("Payout cancelled") end
+     * end)
+     * ```
+     * 
+     * @param id The UUID returned by {@link enqueueSend()}.
+     * @returns Whether the transaction was cancelled.
+     */
+    public cancelSend(id: string): boolean {
+        this._inner.checkStatus("written");
+        expect(1, id, "string");
+        const [entry] = findOutboxEntry(this._inner.uncommitted, id);
+        if (!entry || entry.status != OutboxStatus.PENDING) { return false; }
+        entry.status = OutboxStatus.CANCELLED;
+        refundSpend(this._inner.uncommitted, id);
+        return true;
+    }
+
+    /**
+     * Replaces a transaction that hasn't been sent yet with another one.
+     * 
+     * Like {@link cancelSend()}, this only works for transactions that are still
+     * waiting in the outbox. The transaction keeps its UUID and its place in the
+     * outbox.
+     * 
+     * The new transaction goes through the same spending limit and funds guard checks
+     * as in {@link enqueueSend()}. If they refuse it, the old transaction is kept.
+     * Otherwise, the new transaction counts towards the spending limit in place of
+     * the old one, as if it had been enqueued at the same time.
+     * 
+     * @param id The UUID returned by {@link enqueueSend()}.
+     * @param tx The new transaction.
+     * @returns Whether the transaction was replaced, or nil if a spending limit or the
+     * funds guard refused the new one.
+     * @throws If the new transaction is malformed.
+     */
+    public amendSend(id: string, tx: OutgoingTransaction): boolean | undefined {
+        this._inner.checkStatus("written");
+        expect(1, id, "string");
+        expect(2, tx, "table");
+        const [entry] = findOutboxEntry(this._inner.uncommitted, id);
+        if (!entry || entry.status != OutboxStatus.PENDING) { return false; }
+        const transaction = copy(tx);
+        transaction.type = transaction.type || "transfer";
+        checkOutgoing(transaction, entry.ref);
+        const from = makev2address(transaction.privateKey);
+        const [admitted, awaitingFunds] = this._admit(transaction, from, id);
+        if (!admitted) { return; }
+        entry.transaction = transaction;
+        entry.from = from;
+        entry.awaitingFunds = awaitingFunds;
+        return true;
+    }
+
+    /**
+     * Runs a transaction through the funds guard and its sender's spending limit.
+     * @param id The outbox entry's UUID. An entry with it is left out of the sender's
+     * pending amount.
+     * @returns Whether the transaction was admitted.
+     * @returns Whether it has to wait until its sender can cover it.
+     */
+    private _admit(
+        transaction: OutgoingTransaction,
+        from: string,
+        id: string,
+    ): LuaMultiReturn<[boolean, boolean | undefined]> {
+        let awaitingFunds;
+        const guard = this._guard;
+        if (guard && transaction.type == "transfer") {
+            const balance = guard.getBalance(from);
+            const pending = sumPending(this._inner.uncommitted, id).get(from) || 0;
+            if (balance == undefined || balance - pending < transaction.amount) {
+                if (guard.mode == "reject" && balance != undefined) {
+                    return $multi(false, undefined);
+                }
+                awaitingFunds = true;
+            }
+        }
+        const admitted = admitSpend(this._inner.uncommitted, from, transaction, id);
+        return $multi(admitted, awaitingFunds);
+    }
+
+    /**
+     * Adds a schedule that enqueues a transaction on a fixed interval.
+     * 
+     * Occurrences are enqueued by the stream as they come due, atomically with moving
+     * the schedule on to its next occurrence, so they are neither skipped nor repeated
+     * across restarts. When the stream runs again after some downtime, the last 10
+     * occurrences that came due are enqueued and older ones are skipped. An occurrence
+     * refused by a spending limit or the funds guard stays due, and is retried every 30
+     * seconds until it is admitted.
+     * 
+     * The transaction's `notBefore` and `expiresAt` apply to the first occurrence, and
+     * move along with every later one.
+     * 
+     * ```lua
+     * -- Pay rent every week, starting now.
+     * ctx:addSchedule({
+     *     to = "kpg2310002",
+     *     amount = 250,
+     *     meta = { message = "Rent" },
+     *     privateKey = pkey,
+     * }, 7 * 24 * 60 * 60)
+     * ```
+     * 
+     * @param tx The transaction to enqueue on every occurrence.
+     * @param interval The time between occurrences, in seconds. Must be at least 60.
+     * @param start The UTC epoch of the first occurrence in milliseconds. Defaults to
+     * the current time.
+     * @returns A UUID for identifying the schedule.
+     * @throws If the transaction is malformed, or the interval or start are out of
+     * range.
+     */
+    public addSchedule(
+        tx: OutgoingTransaction,
+        interval: number,
+        start?: number,
+    ): string {
+        this._inner.checkStatus("written");
+        expect(1, tx, "table");
+        expect(2, interval, "number");
+        expect(3, start, "number", "nil");
+        if (interval < MIN_SCHEDULE_INTERVAL) {
+            error("bad argument #2 (expected an interval of at least 60 seconds)", 2);
+        }
+        if (start != undefined && start < MIN_SCHEDULE_START) {
+            error("bad argument #3 (expected a UTC epoch in milliseconds)", 2);
+        }
+        const transaction = copy(tx);
+        transaction.type = transaction.type || "transfer";
+        checkOutgoing(transaction, uuid4());
+
+        // Keep notBefore and expiresAt as offsets, so they move with each occurrence.
+        const next = start || os.epoch("utc");
+        const delay = transaction.notBefore && transaction.notBefore - next;
+        const lifetime = transaction.expiresAt && transaction.expiresAt - next;
+        transaction.notBefore = undefined;
+        transaction.expiresAt = undefined;
+
+        const id = uuid4();
+        this._inner.uncommitted.schedules.push({
+            id,
+            transaction,
+            interval,
+            next,
+            paused: false,
+            delay,
+            lifetime,
+        });
+        return id;
+    }
+
+    /**
+     * Pauses or resumes a schedule. Occurrences that come due while a schedule is
+     * paused are skipped.
+     * @param id The UUID returned by {@link addSchedule()}.
+     * @param paused Whether to pause the schedule, or resume it if false. Defaults to
+     * true.
+     * @returns Whether the schedule exists.
+     */
+    public pauseSchedule(id: string, paused = true): boolean {
+        this._inner.checkStatus("written");
+        expect(1, id, "string");
+        expect(2, paused, "boolean");
+        const schedule = this._inner.uncommitted.schedules.find((s) => s.id == id);
+        if (!schedule) { return false; }
+        schedule.paused = paused;
+        if (!paused) {
+            // Skip over the occurrences that came due while paused.
+            const now = os.epoch("utc");
+            const step = schedule.interval * 1000;
+            if (schedule.next < now) {
+                schedule.next += math.ceil((now - schedule.next) / step) * step;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Removes a schedule. Occurrences that were already enqueued are kept.
+     * @param id The UUID returned by {@link addSchedule()}.
+     * @returns Whether the schedule existed.
+     */
+    public removeSchedule(id: string): boolean {
+        this._inner.checkStatus("written");
+        expect(1, id, "string");
+        const schedules = this._inner.uncommitted.schedules;
+        const index = schedules.findIndex((s) => s.id == id);
+        if (index == -1) { return false; }
+        schedules.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * Gets a value from the stream's store.
+     * 
+     * The store keeps application data, such as inventory or credit balances, in the
+     * stream's state. Values written with {@link set()} are committed together with
+     * everything else the hook does, so they change exactly once per transaction, with
+     * no need for {@link onPrepare} or external storage.
+     * 
+     * ```lua
+     * function stream.onTransaction(ctx, tx)
+     *     if tx.type ~= "transfer" or tx.to ~= address then return end
+     *     local credits = ctx:get("credits") or {}
+     *     credits[tx.from] = (credits[tx.from] or 0) + tx.value
+     *     ctx:set("credits", credits)
+     * end
+     * ```
+     * 
+     * @param key The key.
+     * @returns A copy of the value, or nil if there is none. This includes values set
+     * earlier in the same hook.
+     */
+    public get(key: string): unknown {
+        expect(1, key, "string");
+        return copy(this._inner.uncommitted.store.get(key));
+    }
+
+    /**
+     * Sets a value in the stream's store. See {@link get()} for more info.
+     * @param key The key.
+     * @param value The value. Tables are copied, and must be serializable with
+     * `textutils.serialize`.
+     * @throws If the value can't be serialized.
+     */
+    public set(key: string, value: unknown) {
+        this._inner.checkStatus("written");
+        expect(1, key, "string");
+        expect(2, value, "string", "number", "boolean", "table");
+        const [ok, out] = pcall(() => copy(value));
+        if (!ok) { error("bad argument #2 (" + tostring(out) + ")", 2); }
+        this._inner.uncommitted.store.set(key, out);
+    }
+
+    /**
+     * Deletes a value from the stream's store.
+     * @param key The key.
+     * @returns Whether there was a value.
+     */
+    public delete(key: string): boolean {
+        this._inner.checkStatus("written");
+        expect(1, key, "string");
+        const store = this._inner.uncommitted.store;
+        if (!store.has(key)) { return false; }
+        store.delete(key);
+        return true;
+    }
+
+    /**
+     * Enqueues a side-effect job to run after the hook commits.
+     * 
+     * Jobs are the counterpart of {@link enqueueSend()} for actions other than
+     * sending Krist, such as dispensing items. Like transactions, they are committed
+     * together with the rest of the hook, and the stream runs them in the background
+     * with the handler in `Stream.jobHandlers` for their kind. A job whose handler
+     * errors is retried later, so handlers run *at least once* and should be safe to
+     * run again after a crash. Failing jobs can be inspected with `Stream.getJobs()`.
+     * 
+     * ```lua
+     * stream.jobHandlers.dispense = function(payload)
+     *     assert(turtle.select(payload.slot) and turtle.drop(payload.count))
+     * end
+     * 
+     * function stream.onTransaction(ctx, tx)
+     *     if tx.type ~= "transfer" or tx.to ~= address then return end
+     *     ctx:enqueueJob("dispense", { slot = 1, count = tx.value })
+     * end
+     * ```
+     * 
+     * @param kind The kind of job.
+     * @param payload Data for the handler. Tables are copied, and must be serializable
+     * with `textutils.serialize`.
+     * @returns A UUID for identifying the job.
+     * @throws If the payload can't be serialized.
+     */
+    public enqueueJob(kind: string, payload?: unknown): string {
+        this._inner.checkStatus("written");
+        expect(1, kind, "string");
+        expect(2, payload, "string", "number", "boolean", "table", "nil");
+        const [ok, out] = pcall(() => copy(payload));
+        if (!ok) { error("bad argument #2 (" + tostring(out) + ")", 2); }
+        const id = uuid4();
+        this._inner.uncommitted.jobs.push({ id, kind, payload: out });
+        return id;
+    }
+
+    /**
+     * Sets or removes the spending limit of a sender. The limit acts as a circuit
+     * breaker against hooks that send out more than they should.
+     * 
+     * When a transaction enqueued with {@link enqueueSend()} breaks the limit, the
+     * limit trips. While tripped, `enqueueSend()` refuses all transactions from the
+     * sender, the sender's transactions already in the outbox are held back, and the
+     * stream runs its `onLimitExceeded` hook. Everything resumes once the limit is
+     * reset with {@link resetSpendingLimit()}.
+     * 
+     * ```lua
+     * -- At most 100 KST per refund, and 1000 KST or 50 refunds per hour.
+     * ctx:setSpendingLimit(address, {
+     *     maxAmount = 100,
+     *     window = 60 * 60,
+     *     windowAmount = 1000,
+     *     windowCount = 50,
+     * })
+     * ```
+     * 
+     * Changing a limit keeps whether it has tripped, along with the transactions
+     * already counted towards it.
+     * 
+     * @param address The sender's address.
+     * @param limit The limit, or nil to remove it.
+     * @throws If the limit is malformed.
+     */
+    public setSpendingLimit(address: string, limit?: SpendingLimit) {
+        this._inner.checkStatus("written");
+        expect(1, address, "string");
+        expect(2, limit, "table", "nil");
+        const limits = this._inner.uncommitted.limits;
+        const entry = findLimit(this._inner.uncommitted, address);
+        if (!limit) {
+            if (entry) { limits.splice(limits.indexOf(entry), 1); }
+            clearSpends(this._inner.uncommitted, address);
+            return;
+        }
+        checkLimit(limit);
+        const { maxAmount, window, windowAmount, windowCount } = limit;
+        const copied = { maxAmount, window, windowAmount, windowCount };
+        if (entry) {
+            entry.limit = copied;
+        } else {
+            limits.push({ address, limit: copied, notified: false });
+        }
+    }
+
+    /**
+     * Resets a tripped spending limit, letting the sender's transactions through
+     * again. The transactions counted towards the limit are forgotten.
+     * @param address The sender's address.
+     * @returns Whether the limit had tripped.
+     */
+    public resetSpendingLimit(address: string): boolean {
+        this._inner.checkStatus("written");
+        expect(1, address, "string");
+        const entry = findLimit(this._inner.uncommitted, address);
+        if (!entry || !entry.tripped) { return false; }
+        entry.tripped = undefined;
+        entry.notified = false;
+        clearSpends(this._inner.uncommitted, address);
+        return true;
+    }
+
+    /**
+     * Lists the transactions in the outbox, in the order they were enqueued. This
+     * includes transactions enqueued earlier in the same hook.
+     * @returns Copies of the outbox entries, without private keys.
+     */
+    public getOutbox(): OutboxEntryView[] {
+        return viewOutbox(this._inner.uncommitted);
+    }
+
+    /**
+     * Gets the status of a transaction in the outbox.
+     * @param id The UUID returned by {@link enqueueSend()}.
+     * @returns The status, or nil if the transaction has left the outbox.
+     */
+    public getSendStatus(id: string): OutboxStatus | undefined {
+        expect(1, id, "string");
+        return getOutboxStatus(this._inner.uncommitted, id);
+    }
+
+    /** Returns the amount of transactions in the outbox that may still be sent. */
+    public getPendingCount(): number {
+        return countPending(this._inner.uncommitted);
+    }
+
+    /** Returns the total amount of Krist that may still be sent, by sender address. */
+    public getPendingAmounts(): LuaMap<string, number> {
+        return sumPending(this._inner.uncommitted);
+    }
+
+    /**
+     * Gets the running balance the stream keeps for an address it follows. The
+     * balance includes the transaction the hook is running for, if any, but not
+     * transactions still waiting in the outbox.
+     * 
+     * ```lua
+     * local ledger = ctx:getLedger(address)
+     * local pending = ctx:getPendingAmounts()[address] or 0
+     * if ledger and ledger.balance - pending >= change then
+     *     ctx:enqueueSend({
+     *         to = tx.from,
+     *         amount = change,
+     *         meta = {},
+     *         privateKey = pkey,
+     *     })
+     * end
+     * ```
+     * 
+     * @param address The address.
+     * @returns A copy of the ledger, or nil if the address has none. See
+     * `Stream.reconcile()` for how ledgers start.
+     */
+    public getLedger(address: string): Ledger | undefined {
+        expect(1, address, "string");
+        const ledger = findLedger(this._inner.uncommitted, address);
+        return ledger && copy(ledger);
+    }
 }
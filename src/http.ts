@@ -6,46 +6,161 @@ export class FusedHttpResponse {
     /** Whether the response was ok or not. */
     public readonly ok: boolean;
 
+    /** The HTTP status code. */
+    public readonly code: number;
+
     /** The HTTP status message. */
     public readonly msg: string;
 
     /** The response handle. */
     public readonly h: HTTPResponse;
 
-    public constructor(h: HTTPResponse) {
+    /** The endpoint that responded. */
+    public readonly endpoint: string;
+
+    /** The full request URL. */
+    public readonly url: string;
+
+    public constructor(h: HTTPResponse, endpoint: string, url: string) {
         const [code, msg] = h.getResponseCode();
         this.ok = code >= 200 && code < 300;
+        this.code = code;
         this.msg = msg;
         this.h = h;
+        this.endpoint = endpoint;
+        this.url = url;
     }
 }
 
+/** The base timeout for requests to a healthy endpoint, in seconds. */
+const BASE_BACKOFF = 3;
+
+/** The maximum timeout for requests to a failing endpoint, in seconds. */
+const MAX_BACKOFF = 60;
+
+/** Health information about a single endpoint. */
+type EndpointHealth = {
+    /** The base timeout for the next request, in seconds. Grows with every failure. */
+    backoff: number,
+
+    /** The os.clock() value before which the endpoint shouldn't be tried again. */
+    retryAt: number,
+};
+
 /**
- * Keeps attempting to perform an HTTP request until it either succeeds or a deadline is
- * hit.
- * @param req The request options. The timeout attribute is overwritten.
- * @param deadline The deadline, hit when os.clock() is greater than it.
- * @returns The response handle, or nil on timeout.
+ * An ordered list of Krist endpoints. Requests go to the first endpoint that isn't
+ * known to be down, so later endpoints are only used while earlier ones are failing.
  */
-export function request(
-    req: RequestOptions & { method: string },
-    deadline?: number,
-): FusedHttpResponse | undefined {
-    deadline = deadline || math.huge;
-    let exp = 3;
-    while (true) {
-        const timeout = timeoutOrDeadline(math.random(5, 15) / 10 * exp, deadline);
-        if (timeout == 0) { return; }
-        const t0 = os.clock();
-        const url = req.url + "#" + uuid4();
-        const opts = { body: "", ...req, url, timeout: math.min(60, timeout) };
-        const [h1, _, h2] = http.post(opts);
-        if (h1) {
-            return new FusedHttpResponse(h1);
-        } else if (h2) {
-            return new FusedHttpResponse(h2);
+export class EndpointPool {
+    /** The endpoints, in order of preference. */
+    public readonly endpoints: string[];
+
+    /** Health information for each endpoint. */
+    private _health: LuaMap<string, EndpointHealth>;
+
+    /** The last endpoint that responded to a request. */
+    private _active: string;
+
+    public constructor(endpoints: string[]) {
+        assert(endpoints.length > 0);
+        this.endpoints = endpoints;
+        this._health = new LuaMap();
+        for (const endpoint of endpoints) {
+            this._health.set(endpoint, { backoff: BASE_BACKOFF, retryAt: -math.huge });
+        }
+        this._active = endpoints[0];
+    }
+
+    /** Returns the last endpoint that responded to a request. */
+    public getActive(): string {
+        return this._active;
+    }
+
+    /**
+     * Picks an endpoint to send a request to.
+     * @returns The endpoint.
+     * @returns How long to wait until the endpoint can be tried, in seconds.
+     */
+    public pick(): LuaMultiReturn<[string, number]> {
+        const now = os.clock();
+        let best = this.endpoints[0];
+        for (const endpoint of this.endpoints) {
+            const retryAt = this._health.get(endpoint)!.retryAt;
+            if (retryAt <= now) { return $multi(endpoint, 0); }
+            if (retryAt < this._health.get(best)!.retryAt) { best = endpoint; }
+        }
+        return $multi(best, this._health.get(best)!.retryAt - now);
+    }
+
+    /** Returns a timeout for the next request to an endpoint, with some jitter. */
+    public getTimeout(endpoint: string): number {
+        return math.random(5, 15) / 10 * this._health.get(endpoint)!.backoff;
+    }
+
+    /** Marks an endpoint as up after it responded to a request. */
+    public reportSuccess(endpoint: string) {
+        const health = this._health.get(endpoint)!;
+        health.backoff = BASE_BACKOFF;
+        health.retryAt = -math.huge;
+        this._active = endpoint;
+    }
+
+    /**
+     * Marks an endpoint as down after a failed request.
+     * @param endpoint The endpoint.
+     * @param retryAt The os.clock() value before which it shouldn't be tried again.
+     * Defaults to the current backoff counted from now.
+     */
+    public reportFailure(
+        endpoint: string,
+        retryAt = os.clock() + this.getTimeout(endpoint),
+    ) {
+        const health = this._health.get(endpoint)!;
+        health.retryAt = retryAt;
+        health.backoff = math.min(1.5 * health.backoff, MAX_BACKOFF);
+    }
+
+    /**
+     * Keeps attempting to perform an HTTP request until it either succeeds or a
+     * deadline is hit, moving on to the next endpoint whenever one fails.
+     * @param req The request options. The URL is a path relative to the endpoint, and
+     * the timeout attribute is overwritten.
+     * @param deadline The deadline, hit when os.clock() is greater than it.
+     * @returns The response handle, or nil on timeout.
+     */
+    public request(
+        req: RequestOptions & { method: string },
+        deadline?: number,
+    ): FusedHttpResponse | undefined {
+        while (true) {
+            const [endpoint, wait] = this.pick();
+            if (wait > 0) {
+                const delay = timeoutOrDeadline(wait, deadline);
+                if (delay == 0) { return; }
+                sleep(delay);
+                continue;
+            }
+
+            const timeout = timeoutOrDeadline(this.getTimeout(endpoint), deadline);
+            if (timeout == 0) { return; }
+            const url = endpoint + req.url;
+            const opts = {
+                body: "",
+                ...req,
+                url: url + "#" + uuid4(),
+                timeout: math.min(MAX_BACKOFF, timeout),
+            };
+            const [h1, _, h2] = http.post(opts);
+            const h = h1 || h2;
+            const res = h && new FusedHttpResponse(h, endpoint, url);
+            if (res && res.code < 500) {
+                this.reportSuccess(endpoint);
+                return res;
+            }
+
+            // A 5xx usually comes from a proxy in front of a dead node, so it counts as
+            // a failure just like a network error does.
+            this.reportFailure(endpoint);
         }
-        sleep(timeout - os.clock() + t0);
-        exp = math.min(1.5 * exp, 60);
     }
 }
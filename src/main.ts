@@ -1,66 +1,26 @@
 import * as expect from "cc/expect";
-import sha256 from "./sha256";
-import { hex } from "./util";
 import { Transfer } from "./transaction";
-import { OutgoingTransaction } from "./state";
+import { OutgoingTransfer } from "./state";
+import { isAddress, parseNameRecipient } from "./util";
 
 export { Stream, SendError } from "./stream";
-
-function addrByte(byte: number) {
-    const n = 48 + math.floor(byte / 7);
-    return string.char(n + 39 > 122 ? 101 : n > 57 ? n + 39 : n);
-}
-
-/**
- * Derives a v2 address from a private key.
- * @param key The private key to derive.
- * @param prefix An optional address prefix, defaults to `"k"`.
- * @returns The address.
- */
-export function makev2address(this: void, key: string, prefix = "k"): string {
-    expect(1, key, "string");
-    expect(2, prefix, "string");
-
-    let stick = sha256(hex(sha256(key)));
-    const protein = new LuaMap<number, number>();
-    for (const i of $range(0, 8)) {
-        protein.set(i, string.byte(stick));
-        stick = sha256(hex(sha256(hex(stick))));
-    }
-
-    let n = 1;
-    const out = [prefix];
-    while (n <= 8) {
-        const link = string.byte(stick, n) % 9;
-        const byte = protein.get(link);
-        if (byte) {
-            out.push(addrByte(byte));
-            protein.delete(link);
-            n++;
-        } else {
-            stick = sha256(hex(stick));
-        }
-    }
-
-    for (const i of $range(0, 8)) {
-        const byte = protein.get(i);
-        if (byte) {
-            out.push(addrByte(byte));
-            return table.concat(out);
-        }
-    }
-
-    throw "unreachable";
-}
+export { makev2address } from "./address";
 
 /**
  * Makes a refund for a transfer.
+ * 
+ * The refund goes to the address or name in the transfer's `return` meta field, or
+ * to its sender if there is none. A `return` field that isn't a valid address or name
+ * makes this return nil instead of a refund that `HookContext.enqueueSend()` would
+ * reject with an error.
+ * 
  * @param privateKey The private key of the receiver.
  * @param address The address of the matching private key, for performance.
  * @param transfer The incoming transfer.
  * @param meta Extra metadata to include.
  * @param ud Extra optional user data.
- * @returns The refund pending transfer to set, or nil when unsafe to do so.
+ * @returns The refund pending transfer to set, or nil when unsafe or impossible to do
+ * so.
  */
 export function makeRefund(
     this: void,
@@ -69,7 +29,7 @@ export function makeRefund(
     transfer: Transfer,
     meta = new LuaMap<string, string>(),
     ud?: any,
-): OutgoingTransaction | undefined {
+): OutgoingTransfer | undefined {
     expect(1, privateKey, "string");
     expect(2, address, "string");
     expect(3, transfer, "table");
@@ -87,10 +47,14 @@ export function makeRefund(
     if (transfer.kv.get("return") == "false") { return; }
     if (transfer.kv.has("error")) { return; }
 
+    const to = transfer.kv.get("return") || transfer.from;
+    if (!isAddress(to) && !parseNameRecipient(to)[0]) { return; }
+
     return {
+        type: "transfer",
         amount: transfer.value,
         privateKey,
-        to: transfer.kv.get("return") || transfer.from,
+        to,
         meta: { ...meta, return: "false" },
         ud,
     };
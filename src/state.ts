@@ -1,25 +1,38 @@
+import { makev2address } from "./address";
+import { EndpointPool } from "./http";
 import { HeldMutex, Mutex } from "./mutex";
 import { TransactionPage } from "./transactionPage";
-import { TransactionSet } from "./transactionSet";
-import { ApiTransaction } from "./util";
+import { TransactionFilters, TransactionSet } from "./transactionSet";
+import {
+    ApiAddressResponse,
+    ApiTransaction,
+    copy,
+    parseJson,
+} from "./util";
 import { uuid4 } from "./uuid";
 
 const PATH = "stream.ltn";
 const PATH_MOD = "stream.mod.ltn";
 const PATH_NEW = "stream.new.ltn";
 
+/** How many sent transfers are remembered after leaving the outbox. */
+const MAX_SENT_REFS = 256;
+
 export type StoredState = {
     /** The stream UUID. */
     id: string,
 
-    /** The Krist endpoint. */
-    endpoint: string,
+    /** The Krist endpoints, in order of preference. */
+    endpoints: string[],
 
     /** Whether the transaction set includes mined transactions. */
     includeMined: boolean,
 
-    /** An address, if we're narrowing transactions down. */
-    address?: string,
+    /** A list of addresses, if we're narrowing transactions down. */
+    addresses?: string[],
+
+    /** Filters narrowing transactions down further, if set. */
+    filters?: TransactionFilters,
 
     /** The last transaction ID popped from the stream, or -1 if none. */
     lastPoppedId: number,
@@ -31,8 +44,31 @@ export type StoredState = {
     prepared?: Boxes,
 };
 
-/** An outgoing transaction. */
-export type OutgoingTransaction = {
+/** An outgoing transaction, one of several types. */
+export type OutgoingTransaction = OutgoingSchedule & (
+    | OutgoingTransfer
+    | OutgoingNamePurchase
+    | OutgoingNameTransfer
+    | OutgoingNameRecordChange
+);
+
+/** When an outgoing transaction may be sent. */
+export type OutgoingSchedule = {
+    /** A UTC epoch, in milliseconds, before which the transaction won't be sent. */
+    notBefore?: number,
+
+    /**
+     * A UTC epoch, in milliseconds, after which the transaction fails with an
+     * `"expired"` error instead of being sent.
+     */
+    expiresAt?: number,
+};
+
+/** An outgoing transfer of currency. */
+export type OutgoingTransfer = {
+    /** The transaction type. Transactions without a type are transfers. */
+    type?: "transfer",
+
     /** The transaction amount. */
     amount: number,
 
@@ -42,9 +78,69 @@ export type OutgoingTransaction = {
     /** The sender's private key. */
     privateKey: string,
 
-    /** Transaction CommonMeta key-value pairs. */
+    /**
+     * Transaction CommonMeta key-value pairs.
+     *
+     * Pairs are written in the order of {@link metaOrder}, then the rest in key order,
+     * followed by a `ref` record used by kstream to track the transaction. Values that
+     * contain `";"` or start with a quote are quoted, escaping quotes and backslashes
+     * inside of them with a backslash.
+     */
     meta: LuaMap<string, string>,
 
+    /**
+     * The order to write keys of {@link meta} in. Keys left out follow in key order.
+     */
+    metaOrder?: string[],
+
+    /** Custom user data. */
+    ud: any,
+};
+
+/** An outgoing purchase of a name. */
+export type OutgoingNamePurchase = {
+    type: "name_purchase",
+
+    /** The name to purchase, without suffix. */
+    name: string,
+
+    /** The buyer's private key. */
+    privateKey: string,
+
+    /** Custom user data. */
+    ud: any,
+};
+
+/** An outgoing transfer of a name to another address. */
+export type OutgoingNameTransfer = {
+    type: "name_transfer",
+
+    /** The name to transfer, without suffix. */
+    name: string,
+
+    /** The address of the new owner. */
+    to: string,
+
+    /** The current owner's private key. */
+    privateKey: string,
+
+    /** Custom user data. */
+    ud: any,
+};
+
+/** An outgoing change of a name's A record. */
+export type OutgoingNameRecordChange = {
+    type: "name_a_record",
+
+    /** The name to change, without suffix. */
+    name: string,
+
+    /** The new A record, or nil to clear it. */
+    a?: string,
+
+    /** The owner's private key. */
+    privateKey: string,
+
     /** Custom user data. */
     ud: any,
 };
@@ -58,6 +154,9 @@ export enum OutboxStatus {
 
     /** The transaction has definitely been sent. */
     SENT = "sent",
+
+    /** The transaction has been cancelled and won't be sent. */
+    CANCELLED = "cancelled",
 }
 
 export type OutboxEntry = {
@@ -67,11 +166,35 @@ export type OutboxEntry = {
     /** The outgoing transaction. */
     transaction: OutgoingTransaction,
 
+    /** The sender's address, derived from the transaction's private key. */
+    from: string,
+
     /** An UUID to report back to the user. */
     id: string,
 
     /** An UUID for tracking completion. */
     ref: string,
+
+    /** How many times sending the transaction has failed, if any. */
+    attempts?: number,
+
+    /** A UTC epoch, in milliseconds, before which a failed send won't be retried. */
+    retryAt?: number,
+
+    /** The node's record of the transaction once sent, for transfers. */
+    record?: ApiTransaction,
+
+    /** The UTC epoch, in milliseconds, since which the status has been unknown. */
+    unknownSince?: number,
+
+    /** The UTC epoch, in milliseconds, at which the entry was enqueued. */
+    createdAt?: number,
+
+    /** Why the node refused to check whether the transaction was sent, if it did. */
+    checkError?: string,
+
+    /** Whether the funds guard deferred the transaction until its sender can pay. */
+    awaitingFunds?: boolean,
 };
 
 export type Boxes = {
@@ -83,8 +206,453 @@ export type Boxes = {
 
     /** Outgoing transactions. */
     outbox: OutboxEntry[],
+
+    /** Recurring outgoing transactions. */
+    schedules: Schedule[],
+
+    /** Transfers that left the outbox after being sent, oldest first. */
+    sent: SentRef[],
+
+    /** Spending limits, by sender. */
+    limits: SenderLimit[],
+
+    /** Transactions counted towards spending limits, oldest first. */
+    spends: Spend[],
+
+    /** Running balances of the addresses the stream follows. */
+    ledgers: Ledger[],
+
+    /** Application data stored by hooks, by key. */
+    store: LuaMap<string, unknown>,
+
+    /** Side-effect jobs waiting to run, in the order they were enqueued. */
+    jobs: Job[],
+};
+
+/** A side effect to run at least once through a handler registered on the stream. */
+export type Job = {
+    /** A UUID for identifying the job. */
+    id: string,
+
+    /** The kind of job, which picks its handler. */
+    kind: string,
+
+    /** Data for the handler. */
+    payload: unknown,
+
+    /** How many times the handler has failed, if any. */
+    attempts?: number,
+
+    /** A UTC epoch, in milliseconds, before which a failed job won't be retried. */
+    retryAt?: number,
+
+    /** The error from the handler's last failure, if any. */
+    lastError?: string,
+};
+
+/** A running balance of an address, kept from the transactions in the stream. */
+export type Ledger = {
+    /** The address. */
+    address: string,
+
+    /** The balance as of the last transaction popped from the stream. */
+    balance: number,
+
+    /** The total Krist received since the ledger started. */
+    totalIn: number,
+
+    /** The total Krist sent or spent since the ledger started. */
+    totalOut: number,
+
+    /**
+     * The ID of the address's latest transaction when the balance was fetched, or -1
+     * if it had none. Transactions up to it are already in the balance, so they're
+     * skipped.
+     */
+    since?: number,
+};
+
+/** Limits on how much a sender may spend, checked as transactions are enqueued. */
+export type SpendingLimit = {
+    /** The most Krist a single transfer may send. */
+    maxAmount?: number,
+
+    /** The length of the rolling window for the limits below, in seconds. */
+    window?: number,
+
+    /** The most Krist that may be sent within the window. */
+    windowAmount?: number,
+
+    /** The most transactions that may be enqueued within the window. */
+    windowCount?: number,
+};
+
+/** A sender's spending limit and whether it has tripped. */
+export type SenderLimit = {
+    /** The sender's address. */
+    address: string,
+
+    /** The limit itself. */
+    limit: SpendingLimit,
+
+    /** The name of the field in the limit that tripped, or nil if it hasn't. */
+    tripped?: string,
+
+    /** Whether the `onLimitExceeded` hook has run since the limit tripped. */
+    notified: boolean,
+};
+
+/** A transaction counted towards its sender's spending limit. */
+export type Spend = {
+    /** The sender's address. */
+    from: string,
+
+    /** The amount of Krist sent, or 0 for name operations. */
+    amount: number,
+
+    /** The UTC epoch at which it was enqueued, in milliseconds. */
+    time: number,
+
+    /** The outbox entry's UUID. Missing for spends counted by older versions. */
+    id?: string,
+};
+
+/** A sent transfer, remembered for recognizing it in the stream. */
+export type SentRef = {
+    /** The UUID returned when the transfer was enqueued. */
+    id: string,
+
+    /** The sender's address. */
+    from: string,
+
+    /** The ref in the transfer's metadata. */
+    ref: string,
+};
+
+/** A recurring outgoing transaction. */
+export type Schedule = {
+    /** A UUID for identifying the schedule. */
+    id: string,
+
+    /** The transaction to enqueue on every occurrence. */
+    transaction: OutgoingTransaction,
+
+    /** The time between occurrences, in seconds. */
+    interval: number,
+
+    /** The UTC epoch of the next occurrence, in milliseconds. */
+    next: number,
+
+    /** Whether the schedule is paused. Paused schedules skip their occurrences. */
+    paused: boolean,
+
+    /** The `notBefore` of each occurrence, in milliseconds after the occurrence. */
+    delay?: number,
+
+    /** The `expiresAt` of each occurrence, in milliseconds after the occurrence. */
+    lifetime?: number,
+};
+
+/**
+ * Finds an outbox entry by its ID.
+ * @returns The entry, or nil if it isn't in the outbox.
+ * @returns The entry's index in the outbox.
+ */
+export function findOutboxEntry(
+    boxes: Boxes,
+    id: string,
+): LuaMultiReturn<[OutboxEntry | undefined, number]> {
+    for (const [i, entry] of ipairs(boxes.outbox)) {
+        if (entry.id == id) { return $multi(entry, i - 1); }
+    }
+    return $multi(undefined, -1);
+}
+
+/** A read-only view of an outbox entry. */
+export type OutboxEntryView = {
+    /** The UUID returned when the transaction was enqueued. */
+    id: string,
+
+    /** The transaction status. */
+    status: OutboxStatus,
+
+    /** The sender's address. */
+    from: string,
+
+    /** A copy of the outgoing transaction, without its private key. */
+    transaction: Omit<OutgoingTransaction, "privateKey">,
+
+    /** The UTC epoch, in milliseconds, since which the status has been unknown. */
+    unknownSince?: number,
+
+    /** Why the node refused to check whether the transaction was sent, if it did. */
+    checkError?: string,
 };
 
+/** Returns a read-only view of an outbox entry. */
+function viewOutboxEntry(entry: OutboxEntry): OutboxEntryView {
+    const transaction = copy(entry.transaction);
+    (<Partial<OutgoingTransaction>>transaction).privateKey = undefined;
+    const { id, status, from, unknownSince, checkError } = entry;
+    return { id, status, from, transaction, unknownSince, checkError };
+}
+
+/** Returns read-only views of all entries in the outbox, in order. */
+export function viewOutbox(boxes: Boxes): OutboxEntryView[] {
+    return boxes.outbox.map(viewOutboxEntry);
+}
+
+/**
+ * Returns an outbox entry's status by its ID, or nil if it isn't in the outbox.
+ * Entries leave the outbox once their success or failure hook has committed.
+ */
+export function getOutboxStatus(boxes: Boxes, id: string): OutboxStatus | undefined {
+    return findOutboxEntry(boxes, id)[0]?.status;
+}
+
+/** Returns whether an outbox entry may still be sent. */
+function isOutstanding(entry: OutboxEntry): boolean {
+    return entry.status == OutboxStatus.PENDING || entry.status == OutboxStatus.UNKNOWN;
+}
+
+/** Returns the amount of outbox entries that may still be sent. */
+export function countPending(boxes: Boxes): number {
+    return boxes.outbox.filter(isOutstanding).length;
+}
+
+/**
+ * Returns the total amount of Krist that may still be sent, by sender address.
+ * @param except The UUID of an entry to leave out of the totals.
+ */
+export function sumPending(boxes: Boxes, except?: string): LuaMap<string, number> {
+    const out = new LuaMap<string, number>();
+    for (const entry of boxes.outbox) {
+        const tx = entry.transaction;
+        if (isOutstanding(entry) && tx.type == "transfer" && entry.id != except) {
+            out.set(entry.from, (out.get(entry.from) || 0) + tx.amount);
+        }
+    }
+    return out;
+}
+
+/**
+ * Removes an outbox entry by its ID.
+ * @returns The removed entry, or nil if it wasn't in the outbox.
+ */
+export function removeOutboxEntry(boxes: Boxes, id: string): OutboxEntry | undefined {
+    const [entry, index] = findOutboxEntry(boxes, id);
+    if (entry) { boxes.outbox.splice(index, 1); }
+    return entry;
+}
+
+/**
+ * Remembers a sent outbox entry after it leaves the outbox, forgetting the oldest
+ * ones past a limit. Only transfers carry a ref, so other entries are ignored.
+ */
+export function rememberSent(boxes: Boxes, entry: OutboxEntry) {
+    if (entry.transaction.type != "transfer") { return; }
+    boxes.sent.push({ id: entry.id, from: entry.from, ref: entry.ref });
+    if (boxes.sent.length > MAX_SENT_REFS) { boxes.sent.shift(); }
+}
+
+/**
+ * Finds which of our own transfers an incoming transaction is, by the sender and the
+ * ref in its metadata. Outstanding outbox entries that match are marked as sent.
+ * @param record The incoming transaction.
+ * @param ref The ref in the transaction's metadata.
+ * @returns The ID of the matching transfer, or nil if it isn't one of ours.
+ */
+export function matchSent(
+    boxes: Boxes,
+    record: ApiTransaction,
+    ref: string,
+): string | undefined {
+    for (const entry of boxes.outbox) {
+        if (entry.ref == ref && entry.from == record.from) {
+            if (isOutstanding(entry)) {
+                entry.status = OutboxStatus.SENT;
+                entry.record = record;
+                entry.unknownSince = undefined;
+            }
+            return entry.id;
+        }
+    }
+    for (const sent of boxes.sent) {
+        if (sent.ref == ref && sent.from == record.from) { return sent.id; }
+    }
+}
+
+/** Finds a sender's spending limit, or nil if it has none. */
+export function findLimit(boxes: Boxes, address: string): SenderLimit | undefined {
+    return boxes.limits.find((l) => l.address == address);
+}
+
+/** Forgets the transactions counted towards a sender's spending limit. */
+export function clearSpends(boxes: Boxes, address: string) {
+    boxes.spends = boxes.spends.filter((s) => s.from != address);
+}
+
+/** Forgets the spend counted for an outbox entry, if any. */
+export function refundSpend(boxes: Boxes, id: string) {
+    boxes.spends = boxes.spends.filter((s) => s.id != id);
+}
+
+/**
+ * Checks an outgoing transaction against its sender's spending limit. Transactions
+ * within the limit are counted towards it, and transactions that break it trip it.
+ * Nothing else from the sender is admitted until the limit is reset.
+ * @param from The sender's address.
+ * @param tx The transaction.
+ * @param id The outbox entry's UUID. When amending an entry, the spend counted for
+ * its previous transaction is replaced if the new one is admitted, keeping the time
+ * it was counted at while it's still in the window.
+ * @returns Whether the transaction is within the limit.
+ */
+export function admitSpend(
+    boxes: Boxes,
+    from: string,
+    tx: OutgoingTransaction,
+    id: string,
+): boolean {
+    const entry = findLimit(boxes, from);
+    if (entry?.tripped) { return false; }
+    if (!entry) {
+        refundSpend(boxes, id);
+        return true;
+    }
+
+    // Forget the sender's transactions that fell out of the window.
+    const limit = entry.limit;
+    const now = os.epoch("utc");
+    const since = now - (limit.window || 0) * 1000;
+    boxes.spends = boxes.spends.filter((s) => s.from != from || s.time > since);
+
+    const amount = tx.type == "transfer" ? tx.amount : 0;
+    let windowAmount = amount;
+    let windowCount = 1;
+    for (const spend of boxes.spends) {
+        if (spend.from != from || spend.id == id) { continue; }
+        windowAmount += spend.amount;
+        windowCount++;
+    }
+
+    let tripped: string | undefined;
+    if (amount > (limit.maxAmount || math.huge)) {
+        tripped = "maxAmount";
+    } else if (windowAmount > (limit.windowAmount || math.huge)) {
+        tripped = "windowAmount";
+    } else if (windowCount > (limit.windowCount || math.huge)) {
+        tripped = "windowCount";
+    }
+    if (tripped) {
+        entry.tripped = tripped;
+        entry.notified = false;
+        return false;
+    }
+
+    const time = boxes.spends.find((s) => s.id == id && s.from == from)?.time || now;
+    refundSpend(boxes, id);
+    if (limit.window) { boxes.spends.push({ from, amount, time, id }); }
+    return true;
+}
+
+/** Finds an address's ledger, or nil if it has none. */
+export function findLedger(boxes: Boxes, address: string): Ledger | undefined {
+    return boxes.ledgers.find((l) => l.address == address);
+}
+
+/** Updates the ledgers of the addresses on either side of a transaction. */
+export function applyToLedgers(boxes: Boxes, tx: ApiTransaction) {
+    for (const ledger of boxes.ledgers) {
+        if (tx.id <= (ledger.since || -1)) { continue; }
+        if (tx.to == ledger.address) {
+            ledger.balance += tx.value;
+            ledger.totalIn += tx.value;
+        }
+        if (tx.from == ledger.address) {
+            ledger.balance -= tx.value;
+            ledger.totalOut += tx.value;
+        }
+    }
+}
+
+/**
+ * Fetches an account's balance.
+ * @param deadline A deadline to give up fetching, hit when os.clock() is greater than
+ * it.
+ * @returns The balance, or nil if the deadline was hit or the node refused the lookup.
+ * Addresses the node has never seen have a balance of 0.
+ */
+export function fetchBalance(
+    pool: EndpointPool,
+    address: string,
+    deadline?: number,
+): number | undefined {
+    const url = "/addresses/" + address;
+    const handle = pool.request({ url, method: "GET" }, deadline);
+    if (!handle) { return; }
+    const s = handle.h.readAll() || "";
+    if (handle.ok) {
+        const obj: ApiAddressResponse = parseJson(s, handle.url);
+        return obj.address.balance;
+    }
+
+    // The node only knows addresses that have taken part in a transaction.
+    const obj = textutils.unserializeJSON(s);
+    if (type(obj) == "table" && obj.error == "address_not_found") { return 0; }
+}
+
+/** How many times to try fetching a balance that lines up with a transaction. */
+const LEDGER_START_ATTEMPTS = 3;
+
+/**
+ * Starts a ledger for an address from the node's balance.
+ *
+ * The balance is fetched between two lookups of the address's latest transaction, and
+ * only used if both match. This ties the balance to a known transaction, so the ledger
+ * skips the transactions the balance already has.
+ *
+ * @param deadline A deadline to give up fetching.
+ * @returns The ledger, or nil if the balance couldn't be lined up in time.
+ */
+export function startLedger(
+    pool: EndpointPool,
+    address: string,
+    deadline?: number,
+): Ledger | undefined {
+    const set = new TransactionSet(true, [address]);
+    const latest = () => {
+        const page = TransactionPage.fetch(pool, set, 0, 1, false, deadline);
+        return page && (page.page[0]?.id || -1);
+    };
+
+    for (let i = 0; i < LEDGER_START_ATTEMPTS; i++) {
+        const since = latest();
+        if (since == undefined) { return; }
+        const balance = fetchBalance(pool, address, deadline);
+        if (balance == undefined) { return; }
+        if (latest() == since) {
+            return { address, balance, totalIn: 0, totalOut: 0, since };
+        }
+    }
+}
+
+/**
+ * Starts ledgers for the addresses a stream follows, dropping the ones it no longer
+ * does. Addresses that already have a ledger keep it.
+ * @param addresses The followed addresses, or nil if the stream follows all of them.
+ */
+export function followLedgers(boxes: Boxes, pool: EndpointPool, addresses?: string[]) {
+    const followed = new LuaMap<string, boolean>();
+    for (const address of addresses || []) { followed.set(address, true); }
+    boxes.ledgers = boxes.ledgers.filter((l) => followed.has(l.address));
+    for (const address of addresses || []) {
+        if (findLedger(boxes, address)) { continue; }
+        const ledger = startLedger(pool, address);
+        if (ledger) { boxes.ledgers.push(ledger); }
+    }
+}
+
 /** Manages reading and writing the internal state of the program. */
 export class State {
     private _dir: string;
@@ -112,8 +680,38 @@ export class State {
 
     /** Opens the state at a given directory. */
     public static open(dir: string, revision?: number): State {
+        const state = State._read(dir);
+
+        // If the revision points to the prepared sub-state, replace it. Otherwise, keep
+        // using the committed and discard the prepared state.
+        if (state.prepared && state.prepared.revision == revision) {
+            state.committed = state.prepared;
+            state.prepared = undefined;
+        } else {
+            state.prepared = undefined;
+        }
+
+        const out = new State(dir, state);
+        out.commit();
+        return out;
+    }
+
+    /**
+     * Changes the stored state at a given directory. Unlike {@link open()}, this leaves
+     * any prepared state in place.
+     * @param dir The state directory.
+     * @param fn A function that modifies the stored state in place.
+     */
+    public static modify(dir: string, fn: (state: StoredState) => void) {
+        const state = State._read(dir);
+        fn(state);
+        new State(dir, state).commit();
+    }
+
+    /** Reads the state at a given directory, recovering from interrupted writes. */
+    private static _read(dir: string): StoredState {
         if (!fs.isDir(dir)) {
-            error("not a directory: " + dir, 2);
+            error("not a directory: " + dir, 3);
         }
 
         const path = fs.combine(dir, PATH);
@@ -127,40 +725,56 @@ export class State {
         } else if (fs.exists(pathMod)) {
             fs.move(pathMod, path);
         } else {
-            error("not a valid state directory: " + dir, 2);
+            error("not a valid state directory: " + dir, 3);
         }
 
         const [f, err] = fs.open(path, "rb");
-        if (!f) { error("couldn't open state at " + dir + ": " + err, 2); }
+        if (!f) { error("couldn't open state at " + dir + ": " + err, 3); }
 
         const data = f.readAll() || "";
         f.close();
 
         const state: StoredState = assert(textutils.unserialize(data));
 
-        // If the revision points to the prepared sub-state, replace it. Otherwise, keep
-        // using the committed and discard the prepared state.
-        if (state.prepared && state.prepared.revision == revision) {
-            state.committed = state.prepared;
-            state.prepared = undefined;
-        } else {
-            state.prepared = undefined;
+        // Fill in fields missing from states written by older versions.
+        const legacy = <{ endpoint?: string, address?: string }>state;
+        if (legacy.endpoint) {
+            state.endpoints = [legacy.endpoint];
+            legacy.endpoint = undefined;
+        }
+        if (legacy.address) {
+            state.addresses = [legacy.address];
+            legacy.address = undefined;
+        }
+        for (const boxes of [state.committed, state.prepared]) {
+            if (boxes) {
+                boxes.schedules = boxes.schedules || [];
+                boxes.sent = boxes.sent || [];
+                boxes.limits = boxes.limits || [];
+                boxes.spends = boxes.spends || [];
+                boxes.ledgers = boxes.ledgers || [];
+                boxes.store = boxes.store || new LuaMap();
+                boxes.jobs = boxes.jobs || [];
+            }
+            for (const entry of boxes?.outbox || []) {
+                entry.transaction.type = entry.transaction.type || "transfer";
+                entry.from = entry.from || makev2address(entry.transaction.privateKey);
+            }
         }
 
-        const out = new State(dir, state);
-        out.commit();
-        return out;
+        return state;
     }
 
     /**
-     * Creates a new state on a directory. This method phones the endpoint to fetch the
+     * Creates a new state on a directory. This method phones the endpoints to fetch the
      * last transaction ID so we don't start from the very first transaction.
      */
     public static create(
         dir: string,
-        endpoint: string,
+        endpoints: string[],
         includeMined: boolean,
-        address?: string,
+        addresses?: string[],
+        filters?: TransactionFilters,
     ) {
         fs.makeDir(dir);
 
@@ -168,15 +782,28 @@ export class State {
         const pathNew = fs.combine(dir, PATH_NEW);
 
         const all = TransactionSet.all();
-        const last = TransactionPage.fetch(endpoint, all, 0, 1, false);
+        const pool = new EndpointPool(endpoints);
+        const last = TransactionPage.fetch(pool, all, 0, 1, false);
         const state = <StoredState>{
             id: uuid4(),
-            endpoint,
+            endpoints,
             lastPoppedId: last.page[0]?.id || -1,
             includeMined: !!includeMined,
-            address,
-            committed: { revision: 0, outbox: [] },
+            addresses,
+            filters,
+            committed: {
+                revision: 0,
+                outbox: [],
+                schedules: [],
+                sent: [],
+                limits: [],
+                spends: [],
+                ledgers: [],
+                store: new LuaMap(),
+                jobs: [],
+            },
         };
+        followLedgers(state.committed, pool, addresses);
 
         const [fOpt, err] = fs.open(pathNew, "wb");
         const [f] = assert(fOpt, err);
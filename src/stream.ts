@@ -1,15 +1,117 @@
 import * as expect from "cc/expect";
-import { OutboxEntry, OutboxStatus, OutgoingTransaction, State } from "./state";
-import { TransactionSet } from "./transactionSet";
+import {
+    applyToLedgers,
+    countPending,
+    fetchBalance,
+    findLedger,
+    findLimit,
+    findOutboxEntry,
+    followLedgers,
+    getOutboxStatus,
+    Job,
+    Ledger,
+    matchSent,
+    OutboxEntry,
+    OutboxEntryView,
+    OutboxStatus,
+    OutgoingTransaction,
+    rememberSent,
+    removeOutboxEntry,
+    Schedule,
+    startLedger,
+    State,
+    sumPending,
+    viewOutbox,
+} from "./state";
+import { TransactionPage } from "./transactionPage";
+import { TransactionFilters, TransactionSet } from "./transactionSet";
 import { TransactionStream } from "./transactionStream";
-import { InnerHookContext, HookContext } from "./hookContext";
-import { request } from "./http";
-import { ApiAddressResponse, ApiError, ApiSearchResponse, expectOk, parseJson, timeoutOrDeadline } from "./util";
+import {
+    FundsGuard,
+    FundsGuardMode,
+    HookContext,
+    InnerHookContext,
+} from "./hookContext";
+import { EndpointPool, FusedHttpResponse } from "./http";
+import {
+    ApiError,
+    ApiNameResponse,
+    ApiTransaction,
+    ApiTransactionResponse,
+    copy,
+    expectOk,
+    isName,
+    parseJson,
+    parseTime,
+} from "./util";
 import { HeldMutex, Mutex } from "./mutex";
-import { parseApiTx, Transaction } from "./transaction";
+import { encodeMeta, parseApiTx, Transaction, Transfer } from "./transaction";
+import { uuid4 } from "./uuid";
 
 const MAX_TX_TIMEOUT = 10;
 
+/** How many transactions to fetch per page when scanning a sender's history. */
+const HISTORY_FETCH_LIMIT = 100;
+
+/** How far, in seconds, history scans look back past the start of their window. */
+const HISTORY_SLACK = 60;
+
+/** How long, in seconds, the funds guard waits for a balance from the node. */
+const BALANCE_TIMEOUT = 5;
+
+/** The time to wait before retrying a failed job, in seconds. Doubles every retry. */
+const JOB_BASE_DELAY = 5;
+
+/** The maximum time to wait between retries of a failed job, in seconds. */
+const JOB_MAX_DELAY = 300;
+
+/** Seconds between balance checks for transfers deferred by the funds guard. */
+const FUNDS_RECHECK_DELAY = 30;
+
+/** Seconds to wait before retrying a schedule occurrence that wasn't admitted. */
+const SCHEDULE_RETRY_DELAY = 30;
+
+/** How many overdue occurrences of a schedule are enqueued. Older ones are skipped. */
+const MAX_CATCH_UP = 10;
+
+/** The error reported for transactions cancelled with `HookContext.cancelSend()`. */
+const CANCELLED_ERROR: ApiError = {
+    ok: false,
+    error: "cancelled",
+    message: "The transaction was cancelled before being sent",
+};
+
+/** The error reported for transactions that weren't sent before they expired. */
+const EXPIRED_ERROR: ApiError = {
+    ok: false,
+    error: "expired",
+    message: "The transaction expired before being sent",
+};
+
+/** The error reported for transactions given up on by the `onSendStuck` hook. */
+const STUCK_ERROR: ApiError = {
+    ok: false,
+    error: "stuck",
+    message: "The transaction was given up on while its outcome was unknown",
+};
+
+/** Node error codes caused by the sender not having enough Krist. */
+const FUNDS_ERRORS = ["insufficient_funds"];
+
+/** Node error codes that may go away by trying again later. */
+const RETRYABLE_ERRORS = ["rate_limit_hit", "server_error"];
+
+/** The retry policy streams start out with. */
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 5,
+    baseDelay: 5,
+    maxDelay: 300,
+    retryFunds: false,
+};
+
+/** How many senders can have transactions being sent from the outbox at once. */
+const OUTBOX_LANES = 4;
+
 /**
  * A disk-backed persistent stream of transactions.
  * 
@@ -68,36 +170,68 @@ const MAX_TX_TIMEOUT = 10;
  *     if refund then ctx:enqueueSend(refund) end
  * end
  * ```
+ * 
+ * Outgoing transactions are sent in lanes, one per sending address. Transactions from
+ * the same address are sent in the order they were enqueued, but transactions from
+ * different addresses may be sent at the same time, so a slow send doesn't hold back
+ * the others.
+ * 
+ * When the stream follows an address that sends transfers, they come back through
+ * `onTransaction` too. These get the ID of the outbox entry they were sent from:
+ * 
+ * ```lua
+ * function stream.onTransaction(ctx, tx, outboxId)
+ *     if outboxId then return end -- One of our own transfers.
+ *     print("A transfer is happening from", tx.from, "to", tx.to)
+ * end
+ * ```
  */
 export class Stream {
     /** The main state. */
     private _state: State;
 
+    /** The Krist endpoints to send requests to. */
+    private _endpoints: EndpointPool;
+
+    /** The set of transactions delivered to the stream's hooks. */
+    private _set: TransactionSet;
+
     /** The underlying in-memory stream. */
     private _stream: TransactionStream;
 
+    /** Senders with an outbox transaction being sent by a lane. */
+    private _busySenders = new LuaMap<string, boolean>();
+
     /** A mutex for run() to hold. */
     private _routineMutex = new Mutex();
 
     /** A UUID for identifying the stream. */
     public readonly id: string;
 
-    /** A hook to run on every new incoming transaction. */
+    /**
+     * A hook to run on every new incoming transaction. Transfers sent from this
+     * stream's outbox also get the ID returned by `HookContext.enqueueSend()`.
+     */
     public onTransaction: (
         this: void,
         ctx: HookContext,
-        tx: Transaction
+        tx: Transaction,
+        outboxId?: string,
     ) => void = () => error("onTransaction hook is undefined");
 
-    /** A hook to run on every successful outgoing transaction. */
+    /**
+     * A hook to run on every successful outgoing transaction. Transfers also get the
+     * node's record of the transaction when it could be retrieved.
+     */
     public onSendSuccess: (
         this: void,
         ctx: HookContext,
         tx: OutgoingTransaction,
         uuid: string,
+        record?: Transaction,
     ) => void = () => error("onSendSuccess hook is undefined");
 
-    /** A hook to run on every failed outgoing transaction. */
+    /** A hook to run on every failed or cancelled outgoing transaction. */
     public onSendFailure: (
         this: void,
         ctx: HookContext,
@@ -106,9 +240,99 @@ export class Stream {
         err: SendError,
     ) => void = () => error("onSendFailure hook is undefined");
 
-    private constructor(state: State, stream: TransactionStream) {
+    /**
+     * How failed outgoing transactions are retried. Fields left as nil take their
+     * default values: 5 attempts, 5 seconds of base delay, 300 seconds of maximum
+     * delay, and no retries for funds failures.
+     * 
+     * ```lua
+     * stream.retryPolicy = { maxAttempts = 10, retryFunds = true }
+     * ```
+     */
+    public retryPolicy: Partial<RetryPolicy> = {};
+
+    /**
+     * How long, in seconds, a transaction may stay with an unknown outcome before the
+     * `onSendStuck` hook is asked about it, and between later asks.
+     */
+    public stuckTimeout = 300;
+
+    /**
+     * A hook to run when a transaction's outcome has been unknown for longer than
+     * `stuckTimeout`, usually because the network keeps failing after submitting it.
+     * Returning true gives up on the transaction, which then fails with a `"stuck"`
+     * error even though it may have gone through. Otherwise, sending keeps going.
+     * 
+     * ```lua
+     * function stream.onSendStuck(tx, uuid, since)
+     *     pageOperator("payout " .. uuid .. " has been in limbo since " .. since)
+     * end
+     * ```
+     */
+    public onSendStuck?: (
+        this: void,
+        tx: OutgoingTransaction,
+        uuid: string,
+        since: number,
+    ) => boolean | undefined;
+
+    /**
+     * How to check whether a transfer with an unknown outcome went through. See
+     * {@link SentCheck} for the options.
+     * 
+     * ```lua
+     * stream.sentCheck = "history"
+     * ```
+     */
+    public sentCheck: SentCheck = "auto";
+
+    /**
+     * What `HookContext.enqueueSend()` does with transfers that their sender's
+     * available balance can't cover, or nil to enqueue them anyway. See
+     * {@link getAvailableBalance()} for how the balance is worked out.
+     * 
+     * ```lua
+     * stream.fundsGuard = "defer"
+     * ```
+     */
+    public fundsGuard?: FundsGuardMode;
+
+    /**
+     * A hook to run when a sender's spending limit trips. It runs once per trip, and
+     * the sender's transactions are held back until the limit is reset with
+     * `HookContext.resetSpendingLimit()`.
+     * 
+     * ```lua
+     * function stream.onLimitExceeded(ctx, address, limit)
+     *     pageOperator(address .. " broke its " .. limit .. " spending limit")
+     * end
+     * ```
+     */
+    public onLimitExceeded?: (
+        this: void,
+        ctx: HookContext,
+        address: string,
+        limit: string,
+    ) => void;
+
+    /**
+     * Handlers for the jobs enqueued with `HookContext.enqueueJob()`, by kind. A job
+     * leaves the stream once its handler returns without erroring. Jobs of a kind with
+     * no handler fail, and are retried until one is set. Handlers get a copy of the
+     * payload, so changes to it don't carry over to retries.
+     */
+    public jobHandlers = new LuaMap<string, JobHandler>();
+
+    private constructor(
+        state: State,
+        endpoints: EndpointPool,
+        set: TransactionSet,
+        stream: TransactionStream,
+    ) {
         this.id = state.state.id;
         this._state = state;
+        this._endpoints = endpoints;
+        this._set = set;
         this._stream = stream;
     }
 
@@ -130,13 +354,18 @@ export class Stream {
     public static open(this: void, dir: string, revision?: number): Stream {
         expect(1, dir, "string");
         const state = State.open(dir, revision);
-        const set = new TransactionSet(state.state.includeMined, state.state.address);
+        const endpoints = new EndpointPool(state.state.endpoints);
+        const set = new TransactionSet(
+            state.state.includeMined,
+            state.state.addresses,
+            state.state.filters,
+        );
         const stream = new TransactionStream(
-            state.state.endpoint,
-            set,
+            endpoints,
+            set.getQuerySet(),
             state.state.lastPoppedId,
         );
-        return new Stream(state, stream);
+        return new Stream(state, endpoints, set, stream);
     }
 
     /**
@@ -148,23 +377,157 @@ export class Stream {
      * end
      * ```
      * 
+     * A stream can also follow several addresses at once. Transactions between two of
+     * the addresses are delivered only once:
+     * 
+     * ```lua
+     * kstream.Stream.create("/stream", "https://krist.dev", { shop, payroll, cold })
+     * ```
+     * 
+     * Filters can narrow the stream down further. Transactions left out by them are
+     * skipped without running any hooks:
+     * 
+     * ```lua
+     * kstream.Stream.create("/stream", "https://krist.dev", "kpg2310002", false, {
+     *     types = { "transfer" },
+     *     direction = "in",
+     * })
+     * ```
+     * 
+     * A name filter keeps only transfers sent to that name, either through the name
+     * itself or by declaring it in their metadata. The latter only count if they were
+     * sent to one of the stream's addresses:
+     * 
+     * ```lua
+     * kstream.Stream.create("/stream", "https://krist.dev", "kpg2310002", false, {
+     *     name = "shop1",
+     * })
+     * ```
+     * 
+     * Passing several endpoints makes the stream fail over to later ones in the list
+     * while earlier ones are down:
+     * 
+     * ```lua
+     * kstream.Stream.create("/stream", { "https://krist.dev", mirror }, "kpg2310002")
+     * ```
+     * 
      * @param dir The directory to store the stream at.
-     * @param endpoint The Krist node URL to use for this stream.
-     * @param address The address to fetch transactions for, or all addresses if nil.
+     * @param endpoint The Krist node URL or list of URLs to use for this stream, in
+     * order of preference.
+     * @param address The address or list of addresses to fetch transactions for, or
+     * all addresses if nil.
      * @param includeMined Whether to include mining reward transactions.
+     * @param filters Extra filters for the stream's transactions.
      */
     public static create(
         this: void,
         dir: string,
-        endpoint: string,
-        address?: string,
+        endpoint: string | string[],
+        address?: string | string[],
         includeMined?: boolean,
+        filters?: TransactionFilters,
     ): void {
-        expect(1, endpoint, "string");
-        expect(2, dir, "string");
-        expect(3, address, "string", "nil");
+        expect(1, dir, "string");
+        expect(2, endpoint, "string", "table");
+        expect(3, address, "string", "table", "nil");
         expect(4, includeMined, "boolean", "nil");
-        State.create(dir, endpoint, !!includeMined, address);
+        expect(5, filters, "table", "nil");
+
+        const endpoints = checkList(2, "endpoint", endpoint);
+        const addresses = address ? checkList(3, "address", address) : undefined;
+
+        if (filters) {
+            filters = checkFilters(filters, addresses);
+        }
+
+        State.create(dir, endpoints, !!includeMined, addresses, filters);
+    }
+
+    /**
+     * Changes the configuration of an existing stream, keeping its position and boxes.
+     * The stream must not be open while doing so.
+     * 
+     * ```lua
+     * local warning = kstream.Stream.reconfigure("/stream", {
+     *     endpoint = { "https://krist.dev", mirror },
+     *     address = false,
+     * })
+     * if warning then printError(warning) end
+     * ```
+     * 
+     * Widening the stream's set of transactions is safe, since only transactions after
+     * the current position are delivered. Narrowing it is allowed, but the transactions
+     * left out will never reach the hooks, so a warning is returned.
+     * 
+     * Newly followed addresses get a ledger, and the ledgers of addresses that are no
+     * longer followed are dropped. See {@link reconcile()} for more info.
+     * 
+     * @param dir The directory the stream is stored at.
+     * @param config The fields to change.
+     * @returns A warning about the change, or nil if there is none.
+     */
+    public static reconfigure(
+        this: void,
+        dir: string,
+        config: StreamConfig,
+    ): string | undefined {
+        expect(1, dir, "string");
+        expect(2, config, "table");
+        expect.field(config, "endpoint", "string", "table", "nil");
+        expect.field(config, "address", "string", "table", "boolean", "nil");
+        expect.field(config, "includeMined", "boolean", "nil");
+        expect.field(config, "filters", "table", "boolean", "nil");
+        if (<unknown>config.address == true) {
+            error("bad field 'address' (expected string, table or false)", 2);
+        }
+        if (<unknown>config.filters == true) {
+            error("bad field 'filters' (expected table or false)", 2);
+        }
+
+        let endpoints: string[] | undefined;
+        if (config.endpoint) { endpoints = checkList(2, "endpoint", config.endpoint); }
+
+        let addresses: string[] | undefined;
+        if (config.address) { addresses = checkList(2, "address", config.address); }
+
+        let warning: string | undefined;
+        State.modify(dir, (state) => {
+            const old = new TransactionSet(
+                state.includeMined,
+                state.addresses,
+                state.filters,
+            );
+
+            state.endpoints = endpoints || state.endpoints;
+            if (config.address != undefined) { state.addresses = addresses; }
+            if (config.includeMined != undefined) {
+                state.includeMined = config.includeMined;
+            }
+            if (config.filters != undefined) {
+                state.filters = config.filters || undefined;
+            }
+            if (state.filters) {
+                state.filters = checkFilters(state.filters, state.addresses);
+            }
+
+            const set = new TransactionSet(
+                state.includeMined,
+                state.addresses,
+                state.filters,
+            );
+            if (!old.isSubset(set)) {
+                warning = "the stream no longer includes some transactions it did " +
+                    "before, and they will be skipped";
+            }
+
+            const pool = new EndpointPool(state.endpoints);
+            followLedgers(state.committed, pool, state.addresses);
+            if (state.prepared) {
+                followLedgers(state.prepared, pool, state.addresses);
+            }
+        });
+
+        return warning;
     }
 
     /**
@@ -189,7 +552,13 @@ export class Stream {
                 const inbox = assert(inner.uncommitted.inbox);
                 const tx = parseApiTx(inbox);
                 inner.uncommitted.inbox = undefined;
-                this._runHook(onTransaction!, inner, [tx]);
+
+                // Seeing one of our own transfers also settles whether it was sent.
+                const ref = tx.type == "transfer" ?
+                    (<Transfer>tx).kv.get("ref") :
+                    undefined;
+                const outboxId = ref && matchSent(inner.uncommitted, inbox, ref);
+                this._runHook(onTransaction!, inner, [tx, outboxId]);
                 held.unlock();
             } else {
                 held.unlock();
@@ -199,32 +568,175 @@ export class Stream {
         }
     }
 
+    /**
+     * Claims the first outbox entry of a sender that no lane is sending for. Entries
+     * that can't be sent yet are skipped.
+     * @returns The claimed entry's ID, or nil if there is nothing to claim.
+     * @returns The sender the entry was claimed under.
+     * @returns The UTC epoch at which a skipped entry is due, if any.
+     */
+    private _claim(
+        _: HeldMutex,
+    ): LuaMultiReturn<[string | undefined, string | undefined, number | undefined]> {
+        const now = os.epoch("utc");
+        const seen = new LuaMap<string, boolean>();
+        let wakeAt: number | undefined;
+        const boxes = this._state.state.committed;
+        for (const entry of boxes.outbox) {
+            // Senders with a tripped spending limit are held back until it's reset.
+            const cancelled = entry.status == OutboxStatus.CANCELLED;
+            if (!cancelled && findLimit(boxes, entry.from)?.tripped) {
+                seen.set(entry.from, true);
+                continue;
+            }
+
+            const { notBefore, expiresAt } = entry.transaction;
+            const retryAt = entry.retryAt || -math.huge;
+            const start = math.max(notBefore || -math.huge, retryAt);
+            const due = math.min(start, expiresAt || math.huge);
+            if (entry.status == OutboxStatus.PENDING && due > now) {
+                wakeAt = math.min(wakeAt || math.huge, due);
+
+                // Entries waiting for a retry keep their place in the lane.
+                if (retryAt > now) { seen.set(entry.from, true); }
+            } else if (!seen.has(entry.from) && !this._busySenders.has(entry.from)) {
+                this._busySenders.set(entry.from, true);
+                return $multi(entry.id, entry.from, undefined);
+            } else {
+                seen.set(entry.from, true);
+            }
+        }
+        return $multi(undefined, undefined, wakeAt);
+    }
+
+    /**
+     * Counts a failed attempt at sending an outbox entry, and schedules another one if
+     * the retry policy allows it. Commits the state.
+     * @returns Whether the entry will be retried.
+     */
+    private _retryLater(_: HeldMutex, id: string, err: ApiError): boolean {
+        expect.field(this, "retryPolicy", "table");
+        const policy = { ...DEFAULT_RETRY_POLICY, ...this.retryPolicy };
+        const entry = assert(findOutboxEntry(this._state.state.committed, id)[0]);
+
+        // Cancelled and expired transactions never made it to the node.
+        if (err == CANCELLED_ERROR || err == EXPIRED_ERROR) { return false; }
+
+        const category = classifyError(err);
+        const attempts = (entry.attempts || 0) + 1;
+        const retryable = category == "retryable" ||
+            category == "funds" && policy.retryFunds;
+        entry.attempts = attempts;
+        if (retryable && attempts < policy.maxAttempts) {
+            const delay = policy.baseDelay * 2 ** (attempts - 1);
+            entry.retryAt = os.epoch("utc") + math.min(delay, policy.maxDelay) * 1000;
+        } else {
+            entry.retryAt = undefined;
+        }
+        this._state.commit();
+        return entry.retryAt != undefined;
+    }
+
+    /**
+     * Waits until a hook commits or a UTC epoch is reached.
+     * @param wakeAt The UTC epoch to wake up at, if any.
+     */
+    private _waitForCommit(wakeAt?: number) {
+        let timer: number | undefined;
+        if (wakeAt) { timer = os.startTimer((wakeAt - os.epoch("utc")) / 1000); }
+        while (true) {
+            const [event, p1] = os.pullEvent();
+            if (event == "kstream_committed") { break; }
+            if (event == "timer" && p1 == timer) { break; }
+        }
+        if (timer) { os.cancelTimer(timer); }
+    }
+
+    /**
+     * Checks whether a transfer deferred by the funds guard can be covered by its
+     * sender's balance, and puts it off for a while if not. Commits the state if so.
+     * @returns The held state mutex.
+     * @returns Whether the entry was put off, or has to be claimed again.
+     */
+    private _checkFunds(
+        held: HeldMutex,
+        id: string,
+    ): LuaMultiReturn<[HeldMutex, boolean]> {
+        const entry = assert(findOutboxEntry(this._state.state.committed, id)[0]);
+        const expiresAt = entry.transaction.expiresAt || math.huge;
+        if (
+            !entry.awaitingFunds ||
+            entry.status != OutboxStatus.PENDING ||
+            expiresAt <= os.epoch("utc")
+        ) {
+            return $multi(held, false);
+        }
+
+        const from = entry.from;
+        held.unlock();
+        const balance = this._fetchFunds(from);
+        held = this._state.lock();
+
+        // The entry may have been cancelled or amended in the meantime. If it moved to
+        // another sender, it has to be claimed again under that sender's lane.
+        const current = assert(findOutboxEntry(this._state.state.committed, id)[0]);
+        if (current.from != from) { return $multi(held, true); }
+        const tx = current.transaction;
+        if (current.status != OutboxStatus.PENDING || tx.type != "transfer") {
+            return $multi(held, false);
+        }
+        if (balance != undefined && balance >= tx.amount) {
+            return $multi(held, false);
+        }
+        current.retryAt = os.epoch("utc") + FUNDS_RECHECK_DELAY * 1000;
+        this._state.commit();
+        return $multi(held, true);
+    }
+
     /** Sends transactions in the state outbox and calls the appropriate hooks. */
-    private _outboxWorker() {
+    private _laneWorker() {
         while (true) {
-            const held = this._state.lock();
-            const outbox = this._state.state.committed.outbox;
-            if (outbox.length > 0) {
-                const { id, transaction: tx } = outbox[0];
-                const [ok, err] = this._send(held);
-                if (ok) {
+            let held = this._state.lock();
+            // The entry's sender can change while the mutex is released, so the lane
+            // keeps the one it was claimed under.
+            const [id, from, wakeAt] = this._claim(held);
+            if (id) {
+                let deferred, ok, err;
+                [held, deferred] = this._checkFunds(held, id);
+                if (!deferred) { [held, ok, err] = this._send(held, id); }
+                const [entry] = findOutboxEntry(this._state.state.committed, id);
+                const { transaction: tx, record } = assert(entry);
+                this._busySenders.delete(from!);
+                if (deferred) {
+                    held.unlock();
+                } else if (ok) {
                     const onSendSuccess = this.onSendSuccess;
                     if (type(onSendSuccess) == "function") {
                         const inner = new InnerHookContext(this._state, held);
-                        assert(table.remove(inner.uncommitted.outbox, 1));
-                        this._runHook(onSendSuccess, inner, [tx, id]);
+                        const removed = removeOutboxEntry(inner.uncommitted, id);
+                        rememberSent(inner.uncommitted, assert(removed));
+                        const parsed = record && parseApiTx(record);
+                        this._runHook(onSendSuccess, inner, [tx, id, parsed]);
                         held.unlock();
                     } else {
                         held.unlock();
                         expect.field(this, "onSendSuccess", "function");
                         throw "unreachable";
                     }
+                } else if (this._retryLater(held, id, err!)) {
+                    held.unlock();
                 } else {
                     const onSendFailure = this.onSendFailure;
                     if (type(onSendFailure) == "function") {
+                        const sendError: SendError = {
+                            error: err!.error,
+                            message: err!.message,
+                            category: classifyError(err!),
+                            attempts: assert(entry).attempts || 0,
+                        };
                         const inner = new InnerHookContext(this._state, held);
-                        assert(table.remove(inner.uncommitted.outbox, 1));
-                        this._runHook(onSendFailure, inner, [tx, id, err!]);
+                        assert(removeOutboxEntry(inner.uncommitted, id));
+                        this._runHook(onSendFailure, inner, [tx, id, sendError]);
                         held.unlock();
                     } else {
                         held.unlock();
@@ -234,12 +746,154 @@ export class Stream {
                 }
             } else {
                 held.unlock();
-                os.pullEvent("kstream_mutex_unlocked");
-                os.pullEvent("kstream_mutex_unlocked");
+                this._waitForCommit(wakeAt);
             }
         }
     }
 
+    /** Enqueues the occurrences of schedules as they come due. */
+    private _scheduleWorker() {
+        // The UTC epoch before which to not retry a refused occurrence, by schedule.
+        const retryAt = new LuaMap<string, number>();
+        const dueAt = (schedule: Schedule) => {
+            return math.max(schedule.next, retryAt.get(schedule.id) || -math.huge);
+        };
+
+        while (true) {
+            const held = this._state.lock();
+            const now = os.epoch("utc");
+            let wakeAt: number | undefined;
+            for (const schedule of this._state.state.committed.schedules) {
+                if (schedule.paused) { continue; }
+                wakeAt = math.min(wakeAt || math.huge, dueAt(schedule));
+            }
+
+            if (wakeAt && wakeAt <= now) {
+                // Enqueue all due occurrences and move the schedules past them.
+                const inner = new InnerHookContext(this._state, held);
+                const ctx = new HookContext(inner, this._makeGuard());
+                for (const schedule of inner.uncommitted.schedules) {
+                    if (schedule.paused || dueAt(schedule) > now) { continue; }
+                    retryAt.delete(schedule.id);
+
+                    // Skip the oldest occurrences if too many came due.
+                    const step = schedule.interval * 1000;
+                    const due = math.floor((now - schedule.next) / step) + 1;
+                    if (due > MAX_CATCH_UP) {
+                        schedule.next += (due - MAX_CATCH_UP) * step;
+                    }
+
+                    while (schedule.next <= now) {
+                        const tx = copy(schedule.transaction);
+                        if (schedule.delay != undefined) {
+                            tx.notBefore = schedule.next + schedule.delay;
+                        }
+                        if (schedule.lifetime != undefined) {
+                            tx.expiresAt = schedule.next + schedule.lifetime;
+                        }
+                        if (!ctx.enqueueSend(tx)) {
+                            // A spending limit or the funds guard refused it. Keep the
+                            // occurrence due and try it again later.
+                            retryAt.set(schedule.id, now + SCHEDULE_RETRY_DELAY * 1000);
+                            break;
+                        }
+                        schedule.next += step;
+                    }
+                }
+                inner.commit();
+                held.unlock();
+            } else {
+                held.unlock();
+                this._waitForCommit(wakeAt);
+            }
+        }
+    }
+
+    /** Runs jobs with their handlers, retrying them until they succeed. */
+    private _jobWorker() {
+        while (true) {
+            expect.field(this, "jobHandlers", "table");
+            let held = this._state.lock();
+            const now = os.epoch("utc");
+            let wakeAt: number | undefined;
+            const job = this._state.state.committed.jobs.find((j) => {
+                const due = j.retryAt || -math.huge;
+                if (due > now) { wakeAt = math.min(wakeAt || math.huge, due); }
+                return due <= now;
+            });
+            held.unlock();
+
+            if (!job) {
+                this._waitForCommit(wakeAt);
+                continue;
+            }
+
+            // A job without a handler fails like any other, so it stays queued until
+            // one is set.
+            const handler = this.jobHandlers.get(job.kind);
+            let ok = false;
+            let err: unknown = string.format("no handler for %q jobs", job.kind);
+            if (type(handler) == "function") {
+                [ok, err] = pcall(handler!, copy(job.payload), job.id);
+            }
+
+            held = this._state.lock();
+            const jobs = this._state.state.committed.jobs;
+            const index = jobs.findIndex((j) => j.id == job.id);
+            if (index == -1) {
+                held.unlock();
+                continue;
+            }
+            if (ok) {
+                const inner = new InnerHookContext(this._state, held);
+                inner.uncommitted.jobs.splice(index, 1);
+                inner.commit();
+            } else {
+                const entry = jobs[index];
+                entry.attempts = (entry.attempts || 0) + 1;
+                entry.lastError = tostring(err);
+                const delay = JOB_BASE_DELAY * 2 ** (entry.attempts - 1);
+                entry.retryAt = os.epoch("utc") + math.min(delay, JOB_MAX_DELAY) * 1000;
+                this._state.commit();
+            }
+            held.unlock();
+        }
+    }
+
+    /** Runs the `onLimitExceeded` hook for spending limits as they trip. */
+    private _limitWorker() {
+        while (true) {
+            expect.field(this, "onLimitExceeded", "function", "nil");
+            const onLimitExceeded = this.onLimitExceeded;
+            const held = this._state.lock();
+            const limits = this._state.state.committed.limits;
+            const tripped = limits.find((l) => l.tripped != undefined && !l.notified);
+            if (tripped && onLimitExceeded) {
+                const inner = new InnerHookContext(this._state, held);
+                const { address } = tripped;
+                assert(findLimit(inner.uncommitted, address)).notified = true;
+                this._runHook(onLimitExceeded, inner, [address, tripped.tripped!]);
+                held.unlock();
+            } else {
+                held.unlock();
+                this._waitForCommit();
+            }
+        }
+    }
+
+    /**
+     * Runs outbox lanes. Each lane sends the transactions of one sender at a time, in
+     * order, so a slow send only holds back transactions from the same sender.
+     */
+    private _outboxWorker() {
+        this._busySenders = new LuaMap();
+        const lanes = [];
+        for (const _ of $range(1, OUTBOX_LANES)) {
+            lanes.push(() => this._laneWorker());
+        }
+        parallel.waitForAll(...lanes);
+    }
+
     /** Runs the stream's background routines. */
     public run() {
         expect(1, this, "table");
@@ -249,6 +903,9 @@ export class Stream {
                 () => this._stream.listen(),
                 () => this._inboxWorker(),
                 () => this._outboxWorker(),
+                () => this._scheduleWorker(),
+                () => this._limitWorker(),
+                () => this._jobWorker(),
             )
         });
         held.unlock();
@@ -262,10 +919,54 @@ export class Stream {
      * false about 30 seconds after the node is down.
      * 
      * @returns Whether the node was up since the last check.
+     * @returns The endpoint that last responded to the stream.
      */
-    public isUp(): boolean {
+    public isUp(): LuaMultiReturn<[boolean, string]> {
         expect(1, this, "table");
-        return this._stream.isUp();
+        return $multi(this._stream.isUp(), this._endpoints.getActive());
+    }
+
+    /**
+     * Lists the committed transactions in the outbox, in the order they were enqueued.
+     * 
+     * ```lua
+     * for _, entry in ipairs(stream:getOutbox()) do
+     *     print(entry.id, entry.status, entry.from, entry.transaction.amount)
+     * end
+     * ```
+     * 
+     * @returns Copies of the outbox entries, without private keys.
+     */
+    public getOutbox(): OutboxEntryView[] {
+        expect(1, this, "table");
+        return viewOutbox(this._state.state.committed);
+    }
+
+    /**
+     * Gets the status of a committed transaction in the outbox.
+     * 
+     * Transactions leave the outbox once their `onSendSuccess` or `onSendFailure` hook
+     * commits, so nil means the transaction has been dealt with.
+     * 
+     * @param id The UUID returned by `HookContext.enqueueSend()`.
+     * @returns The status, or nil if the transaction has left the outbox.
+     */
+    public getSendStatus(id: string): OutboxStatus | undefined {
+        expect(1, this, "table");
+        expect(1, id, "string");
+        return getOutboxStatus(this._state.state.committed, id);
+    }
+
+    /** Returns the amount of committed transactions that may still be sent. */
+    public getPendingCount(): number {
+        expect(1, this, "table");
+        return countPending(this._state.state.committed);
+    }
+
+    /** Returns the total amount of Krist that may still be sent, by sender address. */
+    public getPendingAmounts(): LuaMap<string, number> {
+        expect(1, this, "table");
+        return sumPending(this._state.state.committed);
     }
 
     /**
@@ -286,39 +987,199 @@ export class Stream {
 
         // Wait for a new transaction on the stream.
         const streamHeld = this._stream.mutex.lock();
-        this._stream.wait();
+        while (true) {
+            this._stream.wait();
+
+            // Put it into the inbox.
+            const stateHeld2 = this._state.lock();
+            if (this._state.state.committed.inbox) {
+                streamHeld.unlock();
+                return stateHeld2;
+            }
 
-        // Put it into the inbox.
-        const stateHeld2 = this._state.lock();
-        if (!this._state.state.committed.inbox) {
             const incoming = this._stream.pop();
-            this._state.state.committed.inbox = incoming;
             this._state.state.lastPoppedId = incoming.id;
-            this._state.commit();
+
+            // Ledgers follow every transaction, including those left out of our set.
+            applyToLedgers(this._state.state.committed, incoming);
+            if (this._set.contains(incoming)) {
+                this._state.state.committed.inbox = incoming;
+                this._state.commit();
+                streamHeld.unlock();
+                return stateHeld2;
+            }
+
+            // The stream may fetch from a superset of ours, so skip transactions that
+            // aren't in our set. We don't commit here: skipping the same transactions
+            // again after a restart is harmless, and the ledgers are written together
+            // with lastPoppedId on the next commit.
+            stateHeld2.unlock();
         }
-        streamHeld.unlock();
-        return stateHeld2;
     }
 
-    /** Returns whether an outbox entry was already sent. */
-    private _wasSent(_: HeldMutex, outgoing: OutboxEntry): boolean {
-        if (outgoing.status == OutboxStatus.PENDING) { return false; }
-        if (outgoing.status == OutboxStatus.SENT) { return true; }
+    /**
+     * Returns whether an outbox entry was already sent. This doesn't need the state
+     * mutex, so the entry may be a snapshot of one in the outbox.
+     * @param deadline A deadline to give up asking the node, hit when os.clock() is
+     * greater than it.
+     * @returns Whether the entry was sent, or nil if the deadline was hit or the node
+     * refused the check.
+     * @returns The node's record of the sent transfer, if found.
+     * @returns Why the node refused the check, if it did.
+     */
+    private _wasSent(
+        outgoing: OutboxEntry,
+        deadline?: number,
+    ): LuaMultiReturn<[boolean | undefined, ApiTransaction | undefined, string?]> {
+        if (outgoing.status == OutboxStatus.PENDING) {
+            return $multi(false, undefined);
+        }
+        if (outgoing.status == OutboxStatus.SENT) {
+            return $multi(true, outgoing.record);
+        }
+
+        // Name operations are checked against the current state of the name.
+        const tx = outgoing.transaction;
+        if (
+            tx.type == "name_purchase" ||
+            tx.type == "name_transfer" ||
+            tx.type == "name_a_record"
+        ) {
+            const [reached, name] = this._getName(tx.name, deadline);
+            if (!reached) { return $multi(undefined, undefined); }
+            if (tx.type == "name_purchase") {
+                return $multi(name?.owner == outgoing.from, undefined);
+            } else if (tx.type == "name_transfer") {
+                return $multi(name?.owner == tx.to, undefined);
+            } else if (!name || name.owner != outgoing.from) {
+                return $multi(false, undefined);
+            }
+            return $multi((name.a || "") == (tx.a || ""), undefined);
+        }
+
+        // Transfers are looked up by the ref in their metadata.
+        expect.field(this, "sentCheck", "string");
+        let reached, record;
+        if (this.sentCheck == "history") {
+            [reached, record] = this._scanHistory(outgoing, deadline);
+        } else {
+            let found, refusal;
+            [reached, found, refusal] = this._searchRef(
+                outgoing,
+                this.sentCheck == "search",
+                deadline,
+            );
+            if (found) {
+                record = found.find((t) => t.from == outgoing.from);
+            } else if (refusal) {
+                return $multi(undefined, undefined, refusal);
+            } else if (reached) {
+                [reached, record] = this._scanHistory(outgoing, deadline);
+            }
+        }
+        if (!reached) { return $multi(undefined, undefined); }
+        return $multi(record != undefined, record);
+    }
+
+    /**
+     * Searches the node for transactions with an outbox entry's ref in their metadata.
+     * @param strict Whether to report the node refusing the search.
+     * @param deadline A deadline to give up searching.
+     * @returns Whether the node answered before the deadline.
+     * @returns The matching transactions, or nil if the node refused the search.
+     * @returns Why the node refused the search, if it did and strict is set.
+     */
+    private _searchRef(
+        outgoing: OutboxEntry,
+        strict: boolean,
+        deadline?: number,
+    ): LuaMultiReturn<[boolean, ApiTransaction[] | undefined, string?]> {
         const ref = outgoing.ref;
-        const url = this._state.state.endpoint + "/search/extended?q=" + ref;
-        const handle = assert(request({ method: "GET", url }));
-        assert(handle.ok, handle.msg);
+        const url = "/search/extended/results/transactions/metadata?q=" + ref;
+        const handle = this._endpoints.request({ method: "GET", url }, deadline);
+        if (!handle) { return $multi(false, undefined); }
+        if (!handle.ok) {
+            if (!strict) { return $multi(true, undefined); }
+            const { endpoint, code, msg } = handle;
+            const reason = string.format("%d %s", code, msg);
+            return $multi(true, undefined, endpoint + " refused the search: " + reason);
+        }
         const s = handle.h.readAll() || "";
-        const obj = parseJson(s, url);
-        const res = expectOk<ApiSearchResponse>(obj);
-        return res.matches.transactions.metadata != 0;
+        const obj = parseJson(s, handle.url);
+        return $multi(true, expectOk<ApiTransactionResponse>(obj).transactions);
+    }
+
+    /**
+     * Scans the sender's history for an outbox entry's ref, from the newest
+     * transaction back to shortly before the entry's outcome became unknown.
+     * @param deadline A deadline to give up scanning.
+     * @returns Whether the scan finished before the deadline.
+     * @returns The node's record of the transfer, or nil if it wasn't found.
+     */
+    private _scanHistory(
+        outgoing: OutboxEntry,
+        deadline?: number,
+    ): LuaMultiReturn<[boolean, ApiTransaction | undefined]> {
+        const set = new TransactionSet(false, [outgoing.from]);
+        const start = outgoing.unknownSince || outgoing.createdAt || os.epoch("utc");
+        const since = start / 1000 - HISTORY_SLACK;
+        let offset = 0;
+        while (true) {
+            const page = TransactionPage.fetch(
+                this._endpoints,
+                set,
+                offset,
+                HISTORY_FETCH_LIMIT,
+                false,
+                deadline,
+            );
+            if (!page) { return $multi(false, undefined); }
+
+            for (const record of page.page) {
+                if (record.type != "transfer" || record.from != outgoing.from) {
+                    continue;
+                }
+                const tx = <Transfer>parseApiTx(record);
+                if (tx.kv.get("ref") == outgoing.ref) {
+                    return $multi(true, record);
+                }
+            }
+
+            // Pages are in ascending order, so the first transaction is the oldest.
+            const oldest = page.page[0];
+            if (page.isStart() || !oldest || parseTime(oldest.time) < since) {
+                return $multi(true, undefined);
+            }
+            offset += page.page.length;
+        }
+    }
+
+    /**
+     * Fetches a name's information.
+     * @param deadline A deadline to give up fetching.
+     * @returns Whether the node answered before the deadline.
+     * @returns The name's information, or nil if the name doesn't exist.
+     */
+    private _getName(
+        name: string,
+        deadline?: number,
+    ): LuaMultiReturn<[boolean, ApiNameResponse["name"] | undefined]> {
+        const url = "/names/" + name;
+        const handle = this._endpoints.request({ method: "GET", url }, deadline);
+        if (!handle) { return $multi(false, undefined); }
+        const s = handle.h.readAll() || "";
+        const obj: ApiNameResponse | ApiError = parseJson(s, handle.url);
+        if (!obj.ok && obj.error == "name_not_found") {
+            return $multi(true, undefined);
+        }
+        return $multi(true, expectOk(obj).name);
     }
 
     /**
      * Fetches an account's balance.
      * 
-     * This method returns nil if the account doesn't exist, the timeout value is
-     * reached, or another error is encountered.
+     * This method returns 0 if the node has never seen the account, and nil if the
+     * timeout value is reached or another error is encountered.
      * 
      * @param address The address to look up.
      * @param timeout A timeout to give up looking.
@@ -329,14 +1190,159 @@ export class Stream {
         expect(1, address, "string");
         expect(2, timeout, "number", "nil");
         const deadline = timeout && os.clock() + timeout;
-        const url = this._state.state.endpoint + "/addresses/" + address;
-        const handle = request({ url, method: "GET" }, deadline);
-        if (!handle) { return; }
-        assert(handle.ok, handle.msg);
-        const s = handle.h.readAll() || "";
-        const obj: ApiAddressResponse | ApiError = parseJson(s, url);
-        if (!obj.ok) { return; }
-        return obj.address.balance;
+        return fetchBalance(this._endpoints, address, deadline);
+    }
+
+    /**
+     * Gets a committed value from the stream's store. Values can only be written from
+     * hooks, with `HookContext.set()`.
+     * @param key The key.
+     * @returns A copy of the value, or nil if there is none.
+     */
+    public get(key: string): unknown {
+        expect(1, this, "table");
+        expect(1, key, "string");
+        return copy(this._state.state.committed.store.get(key));
+    }
+
+    /**
+     * Lists the committed jobs that haven't succeeded yet, in the order they were
+     * enqueued. Jobs that failed carry their attempt count and last error.
+     * 
+     * ```lua
+     * for _, job in ipairs(stream:getJobs()) do
+     *     if job.lastError then print(job.kind, job.attempts, job.lastError) end
+     * end
+     * ```
+     * 
+     * @returns Copies of the jobs.
+     */
+    public getJobs(): Job[] {
+        expect(1, this, "table");
+        return copy(this._state.state.committed.jobs);
+    }
+
+    /**
+     * Gets the running balance the stream keeps for an address it follows, as of the
+     * last committed transaction.
+     * @param address The address.
+     * @returns A copy of the ledger, or nil if the address has none.
+     */
+    public getLedger(address: string): Ledger | undefined {
+        expect(1, this, "table");
+        expect(1, address, "string");
+        const ledger = findLedger(this._state.state.committed, address);
+        return ledger && copy(ledger);
+    }
+
+    /**
+     * Compares the running balances of the addresses the stream follows with the
+     * node's, and reports the difference.
+     * 
+     * The stream keeps a ledger with the balance of every address it follows, updated
+     * with each transaction together with the hooks' commits. Ledgers start from the
+     * node's balance when the stream starts following an address. Addresses without a
+     * ledger, such as in streams made by older versions, get one from this method.
+     * 
+     * Transactions the stream hasn't reached yet also show up as drift, so this is
+     * best called while the stream is caught up. Streams that leave out mined
+     * transactions also drift by the mining rewards of their addresses.
+     * 
+     * ```lua
+     * for address, drift in pairs(stream:reconcile()) do
+     *     if drift ~= 0 then printError(address .. " drifted by " .. drift) end
+     * end
+     * ```
+     * 
+     * @param adjust Whether to set the ledgers to the node's balances afterwards. The
+     * balances are tied to a transaction, so the ledgers stay exact afterwards.
+     * @param timeout A timeout to give up fetching balances.
+     * @returns The node's balance minus the ledger's, by address. Addresses whose
+     * ledger just started or whose balance couldn't be fetched are left out.
+     */
+    public reconcile(adjust = false, timeout?: number): LuaMap<string, number> {
+        expect(1, this, "table");
+        expect(1, adjust, "boolean");
+        expect(2, timeout, "number", "nil");
+        const deadline = timeout && os.clock() + timeout;
+        const fetched = new LuaMap<string, Ledger>();
+        for (const address of this._set.addresses || []) {
+            const ledger = startLedger(this._endpoints, address, deadline);
+            if (ledger) { fetched.set(address, ledger); }
+        }
+
+        const drift = new LuaMap<string, number>();
+        const held = this._state.lock();
+        const inner = new InnerHookContext(this._state, held);
+        for (const [address, node] of fetched) {
+            const ledger = findLedger(inner.uncommitted, address);
+            if (ledger) {
+                drift.set(address, node.balance - ledger.balance);
+                if (adjust) {
+                    ledger.balance = node.balance;
+                    ledger.since = node.since;
+                }
+            } else {
+                inner.uncommitted.ledgers.push(node);
+            }
+        }
+        inner.commit();
+        held.unlock();
+        return drift;
+    }
+
+    /**
+     * Fetches an account's balance, minus the Krist it has waiting in the outbox.
+     * 
+     * Transactions with an unknown outcome are also subtracted, even though the node
+     * may have already taken them out of the balance, so the result errs on the low
+     * side.
+     * 
+     * @param address The address to look up.
+     * @param timeout A timeout to give up looking.
+     * @returns The available balance, or nil on failure.
+     */
+    public getAvailableBalance(address: string, timeout?: number): number | undefined {
+        expect(1, this, "table");
+        expect(1, address, "string");
+        expect(2, timeout, "number", "nil");
+        const balance = this.getBalance(address, timeout);
+        if (balance == undefined) { return; }
+        const pending = sumPending(this._state.state.committed).get(address) || 0;
+        return balance - pending;
+    }
+
+    /**
+     * Builds the funds guard given to hook contexts, or nil if there is none.
+     * 
+     * Hooks hold the state mutex, so the guard caches the balances it fetches. A hook
+     * enqueueing many transfers only waits on the node once per sender.
+     */
+    private _makeGuard(): FundsGuard | undefined {
+        expect.field(this, "fundsGuard", "string", "nil");
+        const mode = this.fundsGuard;
+        if (!mode) { return; }
+        const balances = new LuaMap<string, [number | undefined]>();
+        return {
+            mode,
+            getBalance: (address) => {
+                let cached = balances.get(address);
+                if (!cached) {
+                    cached = [this._fetchFunds(address)];
+                    balances.set(address, cached);
+                }
+                return cached[0];
+            },
+        };
+    }
+
+    /**
+     * Fetches a sender's balance for the funds guard.
+     * @returns The balance, or nil if it couldn't be fetched.
+     */
+    private _fetchFunds(address: string): number | undefined {
+        const [ok, balance] = pcall(() => this.getBalance(address, BALANCE_TIMEOUT));
+        return ok ? balance : undefined;
     }
 
     /**
@@ -355,7 +1361,7 @@ export class Stream {
         inner: InnerHookContext,
         args: Parameters<F> extends [infer _, ...infer R] ? R : never,
     ): void {
-        const outer = new HookContext(inner);
+        const outer = new HookContext(inner, this._makeGuard());
         const [ok, err] = pcall(() => {
             fn(outer, ...args);
             expect.field(outer, "onPrepare", "function", "nil");
@@ -407,7 +1413,10 @@ export class Stream {
      * @param timeout A timeout to give up waiting for the state mutex.
      * @returns true if the hook ran, or false if it timed out waiting.
      */
-    public begin(fn: (ctx: HookContext) => void, timeout?: number): boolean {
+    public begin(
+        fn: (this: void, ctx: HookContext) => void,
+        timeout?: number,
+    ): boolean {
         expect(1, this, "table");
         expect(1, fn, "function");
         const held = this._state.tryLock(timeout);
@@ -425,7 +1434,8 @@ export class Stream {
      * 
      * @param tx The transaction.
      * @param timeout A timeout to give up waiting for the state mutex.
-     * @returns The local transaction tracker UUID, or nil on timeout.
+     * @returns The local transaction tracker UUID, or nil on timeout or if the funds
+     * guard rejected the transaction.
      */
     public send(tx: OutgoingTransaction, timeout?: number): string | undefined {
         expect(1, this, "table");
@@ -437,93 +1447,420 @@ export class Stream {
     }
 
     /**
-     * Tries to send the first transaction on the outbox.
+     * Checks whether an outbox entry being sent went through, and marks it as sent if
+     * so. The node is only asked if the stream hasn't seen the transaction yet.
+     * @param outgoing A snapshot of the entry.
+     * @param stuckAt The UTC epoch at which to give up asking the node, so the stuck
+     * hook gets a chance to run.
+     * @returns The held state mutex.
+     * @returns Whether the entry was sent, or nil if the check gave up. A check the
+     * node refuses is recorded on the entry, and gives up only at stuckAt.
+     */
+    private _checkSent(
+        id: string,
+        outgoing: OutboxEntry,
+        stuckAt: number,
+    ): LuaMultiReturn<[HeldMutex, boolean | undefined]> {
+        const seen = () => {
+            const [entry] = findOutboxEntry(this._state.state.committed, id);
+            return assert(entry).status == OutboxStatus.SENT;
+        };
+
+        let held = this._state.lock();
+        if (seen()) { return $multi(held, true); }
+        held.unlock();
+
+        const deadline = os.clock() + (stuckAt - os.epoch("utc")) / 1000;
+        const [sent, record, refusal] = this._wasSent(outgoing, deadline);
+        held = this._state.lock();
+        if (seen()) { return $multi(held, true); }
+        if (sent) {
+            this._setStatus(held, id, OutboxStatus.SENT, record);
+            return $multi(held, true);
+        }
+
+        const entry = assert(findOutboxEntry(this._state.state.committed, id)[0]);
+        if (entry.checkError != refusal) {
+            entry.checkError = refusal;
+            this._state.commit();
+        }
+        if (!refusal) { return $multi(held, sent); }
+
+        // Checking again won't go any better, so leave the entry unknown until it gets
+        // stuck. Its own transfer showing up in the stream still settles it.
+        held.unlock();
+        sleep(math.max(0, deadline - os.clock()));
+        held = this._state.lock();
+        return $multi(held, seen() || undefined);
+    }
+
+    /**
+     * Sets the status of an outbox entry and commits the state.
+     * @param record The node's record of the transaction, if it has been sent.
+     */
+    private _setStatus(
+        _: HeldMutex,
+        id: string,
+        status: OutboxStatus,
+        record?: ApiTransaction,
+    ) {
+        const entry = assert(findOutboxEntry(this._state.state.committed, id)[0]);
+        if (status == OutboxStatus.UNKNOWN) {
+            // An entry that is already unknown without saying since when was left so
+            // by an older version. Count from when it was enqueued, which can't be
+            // later than its first attempt.
+            const legacy = entry.status == OutboxStatus.UNKNOWN;
+            const since = legacy ? entry.createdAt : undefined;
+            entry.unknownSince = entry.unknownSince || since || os.epoch("utc");
+        } else {
+            entry.unknownSince = undefined;
+            entry.checkError = undefined;
+        }
+        entry.status = status;
+        entry.record = record;
+        this._state.commit();
+    }
+
+    /**
+     * Asks the `onSendStuck` hook whether to give up on an outbox entry whose outcome
+     * has been unknown for too long. Doesn't need the state mutex.
+     * @param outgoing A snapshot of the entry.
+     * @param stuckAt The UTC epoch at which the entry counts as stuck.
+     * @returns Whether to give up on the entry.
+     * @returns The UTC epoch at which to ask again.
+     */
+    private _askStuck(
+        outgoing: OutboxEntry,
+        stuckAt: number,
+    ): LuaMultiReturn<[boolean, number]> {
+        const now = os.epoch("utc");
+        if (now < stuckAt) { return $multi(false, stuckAt); }
+        expect.field(this, "stuckTimeout", "number");
+        expect.field(this, "onSendStuck", "function", "nil");
+        const next = now + this.stuckTimeout * 1000;
+        const onSendStuck = this.onSendStuck;
+        if (!onSendStuck) { return $multi(false, next); }
+        const since = assert(outgoing.unknownSince);
+        const giveUp = onSendStuck(outgoing.transaction, outgoing.id, since) == true;
+        return $multi(giveUp, next);
+    }
+
+    /**
+     * Tries to send a transaction on the outbox.
      * 
-     * Commits the state setting the appropriate transaction status.
+     * Commits the state setting the appropriate transaction status. The state mutex is
+     * released while waiting on the network, so other lanes and hooks can run.
      * 
+     * @param held The held state mutex.
+     * @param id The outbox entry ID.
+     * @returns The held state mutex, acquired again.
      * @returns Whether the send succeeded.
      * @returns The API error on failure.
-     * @throws If the outbox is empty.
+     * @throws If the entry isn't in the outbox.
      */
-    private _send(held: HeldMutex): LuaMultiReturn<[boolean, ApiError | undefined]> {
-        const outgoing = assert(this._state.state.committed.outbox[0]);
-        if (this._wasSent(held, outgoing)) {
-            outgoing.status = OutboxStatus.SENT;
-            this._state.commit();
-            return $multi(true, undefined);
+    private _send(
+        held: HeldMutex,
+        id: string,
+    ): LuaMultiReturn<[HeldMutex, boolean, ApiError | undefined]> {
+        const [entry] = findOutboxEntry(this._state.state.committed, id);
+        const outgoing = assert(entry);
+        if (outgoing.status == OutboxStatus.CANCELLED) {
+            return $multi(held, false, CANCELLED_ERROR);
+        }
+        const expiresAt = outgoing.transaction.expiresAt || math.huge;
+        if (outgoing.status == OutboxStatus.PENDING && expiresAt <= os.epoch("utc")) {
+            return $multi(held, false, EXPIRED_ERROR);
+        }
+        if (outgoing.status == OutboxStatus.SENT) {
+            return $multi(held, true, undefined);
         }
 
-        const meta = [];
-        for (const [k, v] of outgoing.transaction.meta) { meta.push(k + "=" + v); }
-        meta.push("ref=" + outgoing.ref);
-        const metaStr = table.concat(meta, ";");
-
-        const url = this._state.state.endpoint + "/transactions/";
-        const body = textutils.serializeJSON({
-            privatekey: outgoing.transaction.privateKey,
-            to: outgoing.transaction.to,
-            amount: outgoing.transaction.amount,
-            metadata: metaStr,
-        });
+        // An entry whose outcome is already unknown may have gone through, so check
+        // before sending it again.
+        let checking = outgoing.status == OutboxStatus.UNKNOWN;
+        const [path, body] = makeSubmission(outgoing);
 
         // Switch status to unknown since we're about to send it.
+        this._setStatus(held, id, OutboxStatus.UNKNOWN);
         outgoing.status = OutboxStatus.UNKNOWN;
-        this._state.commit();
+        held.unlock();
+
+        expect.field(this, "stuckTimeout", "number");
+        let stuckAt = assert(outgoing.unknownSince) + this.stuckTimeout * 1000;
 
-        // Keep trying until we time out or succeed.
+        // Keep trying until we time out, succeed, or the stuck hook gives up.
         while (true) {
+            let giveUp;
+            [giveUp, stuckAt] = this._askStuck(outgoing, stuckAt);
+            if (giveUp) {
+                held = this._state.lock();
+                return $multi(held, false, STUCK_ERROR);
+            }
+
+            // Check whether the last attempt went through. The check gives up when
+            // the entry gets stuck, so we come back here and ask the hook.
+            if (checking) {
+                let sent;
+                [held, sent] = this._checkSent(id, outgoing, stuckAt);
+                if (sent) { return $multi(held, true, undefined); }
+                held.unlock();
+                checking = sent == undefined;
+                continue;
+            }
+
+            // Wait for an endpoint to become available.
+            const [endpoint, wait] = this._endpoints.pick();
+            if (wait > 0) {
+                sleep(wait);
+                continue;
+            }
+
             // Submit.
+            const url = endpoint + path;
+            // http.post matches responses by URL, so make ours unique to this lane.
             const [response, _, error] = http.post({
-                url,
+                url: url + "#" + uuid4(),
                 body,
                 method: "POST",
                 timeout: MAX_TX_TIMEOUT,
                 headers: { "Content-Type": "application/json" },
             });
 
+            // A 5xx usually comes from a proxy in front of a dead node, so it's handled
+            // like a network error.
+            const failure = error && new FusedHttpResponse(error, endpoint, url);
+            const refused = failure && failure.code < 500 ? failure : undefined;
+            if (response || refused) { this._endpoints.reportSuccess(endpoint); }
             if (response) {
                 const s = response.readAll() || "";
                 const obj = parseJson(s, url);
+                held = this._state.lock();
                 if (obj.ok) {
                     // We're done.
-                    outgoing.status = OutboxStatus.SENT;
-                    this._state.commit();
-                    return $multi(true, undefined);
+                    const isTransfer = outgoing.transaction.type == "transfer";
+                    const record = isTransfer ? obj.transaction : undefined;
+                    this._setStatus(held, id, OutboxStatus.SENT, record);
+                    return $multi(held, true, undefined);
                 } else {
                     // We have a certified failure.
-                    outgoing.status = OutboxStatus.PENDING;
-                    this._state.commit();
-                    return $multi(false, obj);
+                    this._setStatus(held, id, OutboxStatus.PENDING);
+                    return $multi(held, false, obj);
                 }
-            } else if (error) {
-                const s = error.readAll() || "";
-                const obj = parseJson(s, url);
-                if (obj.ok) {
+            } else if (refused) {
+                const { code, msg } = refused;
+                const obj = textutils.unserializeJSON(refused.h.readAll() || "");
+                if (type(obj) != "table") {
+                    // The node may have failed halfway through, so check whether the
+                    // transaction went through before reporting a failure.
+                    let sent;
+                    [held, sent] = this._checkSent(id, outgoing, stuckAt);
+                    if (sent) { return $multi(held, true, undefined); }
+                    if (sent == undefined) {
+                        held.unlock();
+                        checking = true;
+                        continue;
+                    }
+                    this._setStatus(held, id, OutboxStatus.PENDING);
+                    return $multi(held, false, {
+                        ok: false,
+                        error: "server_error",
+                        message: string.format("%d %s", code, msg),
+                    });
+                } else if (obj.ok) {
                     // ???
                     throw "server returned an inconsistent error value";
                 } else {
                     // We have a certified failure.
-                    outgoing.status = OutboxStatus.PENDING;
-                    this._state.commit();
-                    return $multi(false, obj);
+                    held = this._state.lock();
+                    this._setStatus(held, id, OutboxStatus.PENDING);
+                    return $multi(held, false, obj);
                 }
             } else {
-                // Network error.
-                if (this._wasSent(held, outgoing)) {
-                    outgoing.status = OutboxStatus.SENT;
-                    this._state.commit();
-                    return $multi(true, undefined);
-                }
+                // Network or server error. Check whether it went through before trying
+                // again, possibly on another endpoint.
+                this._endpoints.reportFailure(endpoint);
+                checking = true;
             }
         }
     }
 }
 
+/**
+ * Builds the request that submits an outbox entry to the node.
+ * @returns The request path.
+ * @returns The JSON request body.
+ */
+function makeSubmission(outgoing: OutboxEntry): LuaMultiReturn<[string, string]> {
+    const tx = outgoing.transaction;
+    if (tx.type == "name_purchase") {
+        return $multi("/names/" + tx.name, textutils.serializeJSON({
+            privatekey: tx.privateKey,
+        }));
+    } else if (tx.type == "name_transfer") {
+        return $multi("/names/" + tx.name + "/transfer", textutils.serializeJSON({
+            privatekey: tx.privateKey,
+            address: tx.to,
+        }));
+    } else if (tx.type == "name_a_record") {
+        return $multi("/names/" + tx.name + "/update", textutils.serializeJSON({
+            privatekey: tx.privateKey,
+            a: tx.a || "",
+        }));
+    }
+
+    return $multi("/transactions/", textutils.serializeJSON({
+        privatekey: tx.privateKey,
+        to: tx.to,
+        amount: tx.amount,
+        metadata: encodeMeta(tx.meta, outgoing.ref, tx.metaOrder),
+    }));
+}
+
+/**
+ * Turns a string or list of strings given as an argument into a list without
+ * duplicates, raising an error on the caller's caller if it is malformed.
+ * @param arg The argument index.
+ * @param what What each string in the list stands for.
+ * @param value The argument.
+ */
+function checkList(arg: number, what: string, value: string | string[]): string[] {
+    if (type(value) == "string") { return [<string>value]; }
+
+    const out: string[] = [];
+    const seen = new LuaMap<string, boolean>();
+    for (const [i, s] of ipairs(<string[]>value)) {
+        if (type(s) != "string") {
+            error(string.format("bad %s #%d (expected string)", what, i), 3);
+        }
+        if (!seen.has(s)) { out.push(s); }
+        seen.set(s, true);
+    }
+    if (out.length == 0) {
+        error(string.format("bad argument #%d (empty list)", arg), 3);
+    }
+    return out;
+}
+
+/**
+ * Checks user-given stream filters, raising an error on the caller's caller if they
+ * are malformed.
+ * @returns A copy of the filters to store.
+ */
+function checkFilters(filters: TransactionFilters, addresses?: string[]) {
+    expect.field(filters, "types", "table", "nil");
+    expect.field(filters, "direction", "string", "nil");
+    expect.field(filters, "name", "string", "nil");
+    expect.field(filters, "metaname", "string", "nil");
+
+    let types: string[] | undefined;
+    if (filters.types) {
+        types = [];
+        for (const [i, kind] of ipairs(filters.types)) {
+            if (type(kind) != "string") {
+                error(string.format("bad type #%d (expected string)", i), 3);
+            }
+            types.push(kind);
+        }
+    }
+
+    const direction = filters.direction;
+    if (direction && direction != "in" && direction != "out" && direction != "both") {
+        error("bad field 'direction' (expected \"in\", \"out\" or \"both\")", 3);
+    }
+    if (direction && direction != "both" && !addresses) {
+        error("bad field 'direction' (needs an address to filter on)", 3);
+    }
+
+    const { name, metaname } = filters;
+    if (name && !isName(name)) {
+        error("bad field 'name' (invalid name, expected no suffix)", 3);
+    }
+    if (metaname) {
+        if (!name) { error("bad field 'metaname' (needs a name to filter on)", 3); }
+        if (metaname.length > 32 || !string.find(metaname, "^[%w_-]+$")[0]) {
+            error("bad field 'metaname' (invalid metaname)", 3);
+        }
+    }
+
+    return <TransactionFilters>{ types, direction, name, metaname };
+}
+
+/** Changes to make to a stream's configuration. Fields left as nil are kept. */
+export type StreamConfig = {
+    /** The Krist node URL or list of URLs to use, in order of preference. */
+    endpoint?: string | string[],
+
+    /** The address or list of addresses to follow, or false to follow all of them. */
+    address?: string | string[] | false,
+
+    /** Whether to include mining reward transactions. */
+    includeMined?: boolean,
+
+    /** Extra filters for the stream's transactions, or false to remove them. */
+    filters?: TransactionFilters | false,
+};
+
 /** An error from an outgoing transaction failure. */
 export type SendError = {
-    /** An error code. */
+    /**
+     * An error code. This is either the node's error code, `"server_error"` for
+     * server errors without one, `"cancelled"` for transactions cancelled with
+     * `HookContext.cancelSend()`, `"expired"` for transactions that weren't sent
+     * before their `expiresAt`, or `"stuck"` for transactions given up on by the
+     * `onSendStuck` hook.
+     */
     error: string,
 
     /** A human-readable message explaining the error. */
     message?: string,
+
+    /** What kind of failure this is. */
+    category: SendErrorCategory,
+
+    /** How many times the stream tried to send the transaction. */
+    attempts: number,
+}
+
+/**
+ * The kind of an outgoing transaction failure:
+ * - `"permanent"` failures happen again no matter how many times they are retried.
+ * - `"retryable"` failures, like rate limiting or server errors, may go away later.
+ * - `"funds"` failures happen because the sender doesn't have enough Krist.
+ */
+export type SendErrorCategory = "permanent" | "retryable" | "funds";
+
+/** Runs a job enqueued with `HookContext.enqueueJob()`, erroring on failure. */
+export type JobHandler = (this: void, payload: unknown, id: string) => void;
+
+/** How the stream retries failed outgoing transactions. */
+export type RetryPolicy = {
+    /** The maximum amount of times to try sending a transaction. */
+    maxAttempts: number,
+
+    /** The time to wait before the first retry, in seconds. Doubles on every retry. */
+    baseDelay: number,
+
+    /** The maximum time to wait between retries, in seconds. */
+    maxDelay: number,
+
+    /** Whether to also retry transactions that failed because of a lack of funds. */
+    retryFunds: boolean,
+};
+
+/**
+ * A way of checking whether a transfer with an unknown outcome went through:
+ * - `"search"` looks its ref up through the node's metadata search. If the node refuses
+ *   it, the transfer stays unknown until it gets stuck, and the refusal is shown on
+ *   its outbox entry.
+ * - `"history"` scans the sender's recent transactions for its ref, for nodes that
+ *   don't implement the search or rate-limit it heavily.
+ * - `"auto"` tries the search first and scans the history if the node refuses it.
+ */
+export type SentCheck = "search" | "history" | "auto";
+
+/** Sorts a node error into a {@link SendErrorCategory}. */
+function classifyError(err: ApiError): SendErrorCategory {
+    if (FUNDS_ERRORS.includes(err.error)) { return "funds"; }
+    if (RETRYABLE_ERRORS.includes(err.error)) { return "retryable"; }
+    return "permanent";
 }
@@ -0,0 +1,899 @@
+import * as expect from "cc/expect";
+import { makev2address } from "./address";
+import { ApiTransaction, MAX_METADATA_LENGTH } from "./util";
+import { uuid4 } from "./uuid";
+
+/** How often a running mock node sends keepalive messages on its sockets. */
+const KEEPALIVE_INTERVAL = 10;
+
+/** The price of purchasing a name. */
+const NAME_COST = 500;
+
+/** A fault to inject into the responses of a {@link MockNode}. */
+export type MockFault = {
+    /**
+     * The kind of fault:
+     * - `"timeout"` fails the request as if the network had timed out.
+     * - `"error"` answers the request with an HTTP error status.
+     */
+    kind: "timeout" | "error",
+
+    /** A Lua pattern to match request paths against, or nil to match any request. */
+    path?: string,
+
+    /** The HTTP status code for error faults. Defaults to 500. */
+    code?: number,
+
+    /** The response body for error faults. Defaults to a Krist JSON error. */
+    body?: string,
+
+    /**
+     * Whether the node processes the request before timing out. This simulates a
+     * response getting lost after a transaction was made.
+     */
+    processed?: boolean,
+
+    /** How many matching requests to fail. Defaults to 1. */
+    times?: number,
+};
+
+/** A name registered on a {@link MockNode}. */
+type MockName = {
+    /** The name, without suffix. */
+    name: string,
+
+    /** The owner's address. */
+    owner: string,
+
+    /** The original purchaser's address. */
+    original_owner: string,
+
+    /** The time the name was registered. */
+    registered: string,
+
+    /** The time the name was last updated. */
+    updated: string,
+
+    /** The name's A record. */
+    a?: string,
+};
+
+/** A mock node address. */
+type MockAddress = {
+    balance: number,
+    totalin: number,
+    totalout: number,
+    firstseen: string,
+};
+
+/** An HTTP response handle, as handed out by the http API. */
+type ResponseHandle = {
+    getResponseCode: (this: void) => LuaMultiReturn<[number, string]>,
+    getResponseHeaders: (this: void) => LuaMap<string, string>,
+    readAll: (this: void) => string | undefined,
+    readLine: (this: void) => string | undefined,
+    read: (this: void) => string | undefined,
+    close: (this: void) => void,
+};
+
+/** A websocket handle, as handed out by the http API. */
+type SocketHandle = {
+    receive: (this: void, timeout?: number) => string | undefined,
+    send: (this: void, message: string) => void,
+    close: (this: void) => void,
+};
+
+type HttpResult = LuaMultiReturn<
+    [ResponseHandle] | [undefined, string, ResponseHandle?]
+>;
+type SocketResult = LuaMultiReturn<[SocketHandle] | [false, string]>;
+
+/** The fields of an http.post options table that a mock node reads. */
+type RequestParams = {
+    url: string,
+    method?: string,
+    body?: string,
+};
+
+/** The fields of an http.websocket options table that a mock node reads. */
+type SocketParams = {
+    url: string,
+};
+
+/** The parts of the http API that a mock node replaces while installed. */
+type HttpApi = {
+    post: (
+        this: void,
+        opts: RequestParams | string,
+        ...rest: any[]
+    ) => HttpResult,
+    websocket: (
+        this: void,
+        opts: SocketParams | string,
+        ...rest: any[]
+    ) => SocketResult,
+};
+
+/** The path for searching transactions by metadata. */
+const METADATA_RESULTS_PATH = "/search/extended/results/transactions/metadata";
+
+/** An HTTP status code and message pair for common node errors. */
+const STATUS = {
+    invalid_parameter: [400, "Bad Request"],
+    insufficient_funds: [403, "Forbidden"],
+    not_name_owner: [403, "Forbidden"],
+    address_not_found: [404, "Not Found"],
+    name_not_found: [404, "Not Found"],
+    not_found: [404, "Not Found"],
+    name_taken: [409, "Conflict"],
+} as const;
+
+/** Formats an UTC epoch in milliseconds as an ISO-8601 string. */
+function isoTime(epoch: number): string {
+    const date = <string>os.date("!%Y-%m-%dT%H:%M:%S", math.floor(epoch / 1000));
+    return string.format("%s.%03dZ", date, epoch % 1000);
+}
+
+function makeResponse(code: number, message: string, body: string): ResponseHandle {
+    let rest: string | undefined = body;
+    return {
+        getResponseCode: () => $multi(code, message),
+        getResponseHeaders: () => new LuaMap(),
+        readAll: () => {
+            const out = rest;
+            rest = undefined;
+            return out;
+        },
+        readLine: () => {
+            if (!rest) { return; }
+            const [line, tail] = string.match(rest, "^([^\n]*)\n?(.*)$");
+            rest = tail != "" ? tail : undefined;
+            return line;
+        },
+        read: () => {
+            if (!rest) { return; }
+            const out = string.sub(rest, 1, 1);
+            rest = rest.length > 1 ? string.sub(rest, 2) : undefined;
+            return out;
+        },
+        close: () => { rest = undefined; },
+    };
+}
+
+/** Parses an URL query string into its parameters. */
+function parseQuery(query: string): LuaMap<string, string> {
+    const out = new LuaMap<string, string>();
+    for (const [pair] of string.gmatch(query, "[^&]+")) {
+        const [key, value] = string.match(pair, "^([^=]*)=?(.*)$");
+        out.set(key, string.gsub(value, "%%(%x%x)", (h) => {
+            return string.char(tonumber(h, 16)!);
+        })[0]);
+    }
+    return out;
+}
+
+/**
+ * An in-process fake Krist node for testing code built on top of kstream.
+ *
+ * Once installed, the mock node intercepts every `http.post` and `http.websocket`
+ * call to its endpoint and serves it from memory. Requests to other URLs are passed
+ * through to the real http API. The node serves the subset of the Krist API used by
+ * kstream: transaction lookups, transfers, name operations, extended searches,
+ * addresses and the transaction websocket.
+ *
+ * Tests can script the node by injecting transactions, deleting them, and failing
+ * requests with timeouts or HTTP errors:
+ *
+ * ```lua
+ * local node = testing.MockNode.create()
+ * node:install()
+ * node:setBalance(address, 100)
+ *
+ * kstream.Stream.create("/test-stream", node.endpoint, address)
+ * local stream = kstream.Stream.open("/test-stream")
+ *
+ * -- The first submission gets through but its response is lost.
+ * node:fail({ kind = "timeout", path = "^/transactions/", processed = true })
+ *
+ * parallel.waitForAny(
+ *     function() node:run() end,
+ *     function() stream:run() end,
+ *     function()
+ *         node:transfer("kfakeaddr0", address, 10, "return=kfakeaddr0")
+ *         -- ...
+ *     end
+ * )
+ *
+ * stream:close()
+ * node:uninstall()
+ * ```
+ */
+export class MockNode {
+    /** The node's endpoint URL. */
+    public readonly endpoint: string;
+
+    /** Every request path served by the node, in order, prefixed by its method. */
+    public readonly requests: string[] = [];
+
+    /** The node's transactions, ordered by id. */
+    private _transactions: ApiTransaction[] = [];
+
+    /** The id to assign to the next transaction. */
+    private _nextId = 1;
+
+    /** Known addresses. */
+    private _addresses = new LuaMap<string, MockAddress>();
+
+    /** Registered names, without suffix. */
+    private _names = new LuaMap<string, MockName>();
+
+    /** Pending faults to inject. */
+    private _faults: MockFault[] = [];
+
+    /** Socket URLs handed out by /ws/start that haven't been connected to yet. */
+    private _startedSockets = new LuaMap<string, boolean>();
+
+    /** Open sockets, mapped to whether they subscribed to transactions. */
+    private _sockets = new LuaMap<string, boolean>();
+
+    /** The real http API functions, while installed. */
+    private _original?: HttpApi;
+
+    private constructor(endpoint: string) {
+        this.endpoint = endpoint;
+    }
+
+    /**
+     * Creates a new mock node.
+     * @param endpoint The endpoint URL to serve, defaults to `"https://mock.krist"`.
+     * @returns The node.
+     */
+    public static create(this: void, endpoint = "https://mock.krist"): MockNode {
+        expect(1, endpoint, "string");
+        return new MockNode(endpoint);
+    }
+
+    /** Replaces the http API functions with ones that serve this node. */
+    public install(): void {
+        expect(1, this, "table");
+        if (this._original) { return; }
+        const api = <HttpApi><unknown>http;
+        const original = { post: api.post, websocket: api.websocket };
+        this._original = original;
+
+        api.post = (opts, ...rest) => {
+            const url = type(opts) == "string" ?
+                <string>opts :
+                (<RequestParams>opts).url;
+            if (!this._owns(url)) { return original.post(opts, ...rest); }
+            if (type(opts) == "string") {
+                return this._handle({ url, method: "POST", body: rest[0] });
+            }
+            return this._handle(<RequestParams>opts);
+        };
+
+        api.websocket = (opts, ...rest) => {
+            const url = type(opts) == "string" ?
+                <string>opts :
+                (<SocketParams>opts).url;
+            if (!this._startedSockets.has(url)) {
+                return original.websocket(opts, ...rest);
+            }
+            return this._connect(url);
+        };
+    }
+
+    /** Restores the http API functions replaced by {@link install()}. */
+    public uninstall(): void {
+        expect(1, this, "table");
+        if (!this._original) { return; }
+        const api = <HttpApi><unknown>http;
+        api.post = this._original.post;
+        api.websocket = this._original.websocket;
+        this._original = undefined;
+    }
+
+    /** Sends keepalive messages periodically so sockets don't time out. */
+    public run(): void {
+        expect(1, this, "table");
+        while (true) {
+            sleep(KEEPALIVE_INTERVAL);
+            const time = isoTime(os.epoch("utc"));
+            this._broadcast({ type: "keepalive", server_time: time });
+        }
+    }
+
+    /**
+     * Sets an address's balance, creating it if it doesn't exist.
+     * @param address The address.
+     * @param balance The new balance.
+     */
+    public setBalance(address: string, balance: number): void {
+        expect(1, this, "table");
+        expect(1, address, "string");
+        expect(2, balance, "number");
+        this._getAddress(address).balance = balance;
+    }
+
+    /**
+     * Fetches an address's balance.
+     * @param address The address.
+     * @returns The balance, or 0 if the address doesn't exist.
+     */
+    public getBalance(address: string): number {
+        expect(1, this, "table");
+        expect(1, address, "string");
+        return this._addresses.get(address)?.balance || 0;
+    }
+
+    /**
+     * Registers a name without making a transaction for it.
+     * @param name The name, without suffix.
+     * @param owner The owner's address.
+     */
+    public registerName(name: string, owner: string): void {
+        expect(1, this, "table");
+        expect(1, name, "string");
+        expect(2, owner, "string");
+        const time = isoTime(os.epoch("utc"));
+        this._names.set(name, {
+            name,
+            owner,
+            original_owner: owner,
+            registered: time,
+            updated: time,
+        });
+    }
+
+    /**
+     * Appends a transaction to the node's history and broadcasts it to subscribed
+     * sockets. Balances are updated to reflect the transaction.
+     * @param tx The transaction. The id and time fields are filled in by the node.
+     * @returns The created transaction.
+     */
+    public pushTransaction(tx: Omit<ApiTransaction, "id" | "time">): ApiTransaction {
+        expect(1, this, "table");
+        expect(1, tx, "table");
+        expect.field(tx, "type", "string");
+        expect.field(tx, "to", "string");
+        expect.field(tx, "value", "number");
+
+        const out = { ...tx, id: this._nextId++, time: isoTime(os.epoch("utc")) };
+        if (tx.from && tx.value > 0) {
+            const from = this._getAddress(tx.from);
+            from.balance -= tx.value;
+            from.totalout += tx.value;
+        }
+        if ((tx.type == "transfer" || tx.type == "mined") && tx.value > 0) {
+            const to = this._getAddress(tx.to);
+            to.balance += tx.value;
+            to.totalin += tx.value;
+        }
+
+        this._transactions.push(out);
+        for (const [url, subscribed] of this._sockets) {
+            if (subscribed) {
+                os.queueEvent("websocket_message", url, textutils.serializeJSON({
+                    type: "event",
+                    event: "transaction",
+                    transaction: out,
+                }), false);
+            }
+        }
+
+        return out;
+    }
+
+    /**
+     * Makes a transfer without checking balances.
+     * @param from The sender's address.
+     * @param to The recipient, either an address or a name with optional metaname.
+     * @param value The amount to transfer.
+     * @param metadata Optional transaction metadata.
+     * @returns The created transaction.
+     */
+    public transfer(
+        from: string,
+        to: string,
+        value: number,
+        metadata?: string,
+    ): ApiTransaction {
+        expect(1, this, "table");
+        expect(1, from, "string");
+        expect(2, to, "string");
+        expect(3, value, "number");
+        expect(4, metadata, "string", "nil");
+        const [address, metaname, name] = this._resolve(to);
+        if (!address) { error("name not found: " + to, 2); }
+        return this.pushTransaction({
+            type: "transfer",
+            from,
+            to: address,
+            value,
+            metadata: name ? this._nameMetadata(metaname, name, metadata) : metadata,
+            sent_name: name,
+            sent_metaname: metaname,
+        });
+    }
+
+    /**
+     * Mints a mining reward.
+     * @param to The recipient's address.
+     * @param value The reward amount.
+     * @returns The created transaction.
+     */
+    public mine(to: string, value: number): ApiTransaction {
+        expect(1, this, "table");
+        expect(1, to, "string");
+        expect(2, value, "number");
+        return this.pushTransaction({ type: "mined", to, value });
+    }
+
+    /**
+     * Deletes a transaction from the node's history. Balances are not reverted.
+     * @param id The transaction id.
+     * @returns Whether the transaction existed.
+     */
+    public deleteTransaction(id: number): boolean {
+        expect(1, this, "table");
+        expect(1, id, "number");
+        for (const [i, tx] of ipairs(this._transactions)) {
+            if (tx.id == id) {
+                table.remove(this._transactions, i);
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Fetches a transaction from the node's history.
+     * @param id The transaction id.
+     * @returns The transaction, or nil if it doesn't exist.
+     */
+    public getTransaction(id: number): ApiTransaction | undefined {
+        expect(1, this, "table");
+        expect(1, id, "number");
+        return this._transactions.find((tx) => tx.id == id);
+    }
+
+    /**
+     * Schedules a fault to be injected into upcoming requests. Faults are checked in
+     * the order they were added, and each request triggers at most one fault.
+     * @param fault The fault to inject.
+     */
+    public fail(fault: MockFault): void {
+        expect(1, this, "table");
+        expect(1, fault, "table");
+        expect.field(fault, "kind", "string");
+        expect.field(fault, "path", "string", "nil");
+        expect.field(fault, "code", "number", "nil");
+        expect.field(fault, "body", "string", "nil");
+        expect.field(fault, "processed", "boolean", "nil");
+        expect.field(fault, "times", "number", "nil");
+        this._faults.push({ ...fault, times: fault.times || 1 });
+    }
+
+    /** Removes all pending faults. */
+    public clearFaults(): void {
+        expect(1, this, "table");
+        this._faults = [];
+    }
+
+    /** Closes every open socket from the node's side. */
+    public dropSockets(): void {
+        expect(1, this, "table");
+        for (const [url] of this._sockets) {
+            os.queueEvent("websocket_closed", url, "Connection closed", 1006);
+        }
+        this._sockets = new LuaMap();
+    }
+
+    /** Whether an URL points to this node. */
+    private _owns(url: string): boolean {
+        return string.sub(url, 1, this.endpoint.length) == this.endpoint;
+    }
+
+    private _getAddress(address: string): MockAddress {
+        let out = this._addresses.get(address);
+        if (!out) {
+            out = {
+                balance: 0,
+                totalin: 0,
+                totalout: 0,
+                firstseen: isoTime(os.epoch("utc")),
+            };
+            this._addresses.set(address, out);
+        }
+        return out;
+    }
+
+    /**
+     * Resolves a recipient into an address.
+     * @returns The address, or nil if the recipient is an unknown name.
+     * @returns The recipient's metaname, if any.
+     * @returns The recipient's name, if any.
+     */
+    private _resolve(
+        to: string,
+    ): LuaMultiReturn<[string | undefined, string | undefined, string | undefined]> {
+        let [metaname, name] = string.match(to, "^([^@]*)@(%w+)%.kst$");
+        if (!name) { [name] = string.match(to, "^(%w+)%.kst$"); }
+        if (!name) { return $multi(to, undefined, undefined); }
+        const owner = this._names.get(name)?.owner;
+        return $multi(owner, metaname != "" ? metaname : undefined, name);
+    }
+
+    /** Prepends a name destination record to transaction metadata. */
+    private _nameMetadata(
+        metaname: string | undefined,
+        name: string,
+        metadata?: string,
+    ): string {
+        const dest = (metaname ? metaname + "@" : "") + name + ".kst";
+        return metadata ? dest + ";" + metadata : dest;
+    }
+
+    /** Pops the first fault that matches a path, if any. */
+    private _takeFault(path: string): MockFault | undefined {
+        for (const [i, fault] of ipairs(this._faults)) {
+            if (!fault.path || string.find(path, fault.path)[0]) {
+                fault.times = fault.times! - 1;
+                if (fault.times <= 0) { table.remove(this._faults, i); }
+                return fault;
+            }
+        }
+    }
+
+    /** Sends a message to every open socket. */
+    private _broadcast(message: object): void {
+        const json = textutils.serializeJSON(message);
+        for (const [url] of this._sockets) {
+            os.queueEvent("websocket_message", url, json, false);
+        }
+    }
+
+    /** Handles an HTTP request to the node. */
+    private _handle(req: RequestParams): HttpResult {
+        const method = req.method || (req.body ? "POST" : "GET");
+        const target = string.sub(req.url, this.endpoint.length + 1);
+        const [path, query] = string.match(target, "^([^?#]*)%??([^#]*)");
+        this.requests.push(method + " " + path);
+
+        const fault = this._takeFault(path);
+        if (fault && fault.kind == "timeout") {
+            if (fault.processed) { this._route(method, path, query, req.body || ""); }
+            return $multi(undefined, "Timed out");
+        } else if (fault) {
+            const code = fault.code || 500;
+            const body = fault.body || textutils.serializeJSON({
+                ok: false,
+                error: "server_error",
+            });
+            const response = makeResponse(code, "Server Error", body);
+            return $multi(undefined, "Server Error", response);
+        }
+
+        const [code, body] = this._route(method, path, query, req.body || "");
+        if (code >= 200 && code < 300) {
+            return $multi(makeResponse(code, "OK", body));
+        }
+        return $multi(undefined, "Error", makeResponse(code, "Error", body));
+    }
+
+    /** Routes a request to its handler and returns the status code and body. */
+    private _route(
+        method: string,
+        path: string,
+        query: string,
+        body: string,
+    ): LuaMultiReturn<[number, string]> {
+        const params = parseQuery(query);
+        const [lookup] = string.match(path, "^/lookup/transactions/([^/]*)$");
+        const [address] = string.match(path, "^/addresses/([^/]+)$");
+        const [name, action] = string.match(path, "^/names/(%w+)/?(%w*)$");
+        if (method == "GET" && lookup) {
+            return this._lookupTransactions(lookup, params);
+        } else if (method == "POST" && string.find(path, "^/transactions/?$")[0]) {
+            return this._makeTransaction(body);
+        } else if (method == "GET" && path == "/search/extended") {
+            return this._searchExtended(params.get("q") || "");
+        } else if (method == "GET" && path == METADATA_RESULTS_PATH) {
+            return this._searchMetadata(params.get("q") || "", params);
+        } else if (method == "GET" && address) {
+            return this._lookupAddress(address);
+        } else if (method == "POST" && path == "/ws/start") {
+            return this._startSocket();
+        } else if (method == "GET" && name && action == "") {
+            return this._lookupName(name);
+        } else if (method == "POST" && name && action == "") {
+            return this._purchaseName(name, body);
+        } else if (method == "POST" && name && action == "transfer") {
+            return this._transferName(name, body);
+        } else if (method != "GET" && name && action == "update") {
+            return this._updateName(name, body);
+        }
+        return this._error("not_found");
+    }
+
+    private _ok(obj: object): LuaMultiReturn<[number, string]> {
+        return $multi(200, textutils.serializeJSON({ ok: true, ...obj }));
+    }
+
+    private _error(
+        err: keyof typeof STATUS,
+        message?: string,
+    ): LuaMultiReturn<[number, string]> {
+        const [code] = STATUS[err];
+        const body = textutils.serializeJSON({ ok: false, error: err, message });
+        return $multi(code, body);
+    }
+
+    /** Serves `GET /lookup/transactions/<addresses>`. */
+    private _lookupTransactions(
+        addresses: string,
+        params: LuaMap<string, string>,
+    ): LuaMultiReturn<[number, string]> {
+        const filter = new LuaMap<string, boolean>();
+        let filtered = false;
+        for (const [address] of string.gmatch(addresses, "[^,]+")) {
+            filter.set(address, true);
+            filtered = true;
+        }
+
+        const includeMined = params.has("includeMined");
+        const matches = this._transactions.filter((tx) => {
+            if (!includeMined && tx.type == "mined") { return false; }
+            if (!filtered) { return true; }
+            return filter.has(tx.from || "") || filter.has(tx.to);
+        });
+        if (params.get("order") == "DESC") { matches.reverse(); }
+
+        const offset = tonumber(params.get("offset")) || 0;
+        const limit = tonumber(params.get("limit")) || 50;
+        const page = matches.slice(offset, offset + limit);
+        return this._ok({
+            count: page.length,
+            total: matches.length,
+            transactions: page.length > 0 ? page : textutils.empty_json_array,
+        });
+    }
+
+    /** Serves `POST /transactions/`. */
+    private _makeTransaction(body: string): LuaMultiReturn<[number, string]> {
+        const req = textutils.unserializeJSON(body);
+        if (type(req) != "table") { return this._error("invalid_parameter", "body"); }
+        const { privatekey, to, amount, metadata } = req;
+        if (type(privatekey) != "string") {
+            return this._error("invalid_parameter", "privatekey");
+        }
+        if (type(to) != "string") { return this._error("invalid_parameter", "to"); }
+        if (type(amount) != "number" || amount < 1 || amount % 1 != 0) {
+            return this._error("invalid_parameter", "amount");
+        }
+        if (metadata != undefined && type(metadata) != "string") {
+            return this._error("invalid_parameter", "metadata");
+        }
+
+        const [address, metaname, name] = this._resolve(to);
+        if (!address) { return this._error("name_not_found"); }
+        const fullMetadata: string | undefined = name ?
+            this._nameMetadata(metaname, name, metadata) :
+            metadata;
+        if (fullMetadata && fullMetadata.length > MAX_METADATA_LENGTH) {
+            return this._error("invalid_parameter", "metadata");
+        }
+
+        const from = makev2address(privatekey);
+        if (this.getBalance(from) < amount) {
+            return this._error("insufficient_funds");
+        }
+
+        const transaction = this.pushTransaction({
+            type: "transfer",
+            from,
+            to: address,
+            value: amount,
+            metadata: fullMetadata,
+            sent_name: name,
+            sent_metaname: metaname,
+        });
+        return this._ok({ transaction });
+    }
+
+    /** Serves `GET /search/extended`. Only metadata matches are counted. */
+    private _searchExtended(q: string): LuaMultiReturn<[number, string]> {
+        let metadata = 0;
+        for (const tx of this._transactions) {
+            if (tx.metadata && string.find(tx.metadata, q, 1, true)[0]) { metadata++; }
+        }
+        return this._ok({
+            query: { originalQuery: q },
+            matches: {
+                addresses: 0,
+                names: 0,
+                transactions: { addressInvolved: 0, nameInvolved: 0, metadata },
+            },
+        });
+    }
+
+    /** Serves `GET /search/extended/results/transactions/metadata`. */
+    private _searchMetadata(
+        q: string,
+        params: LuaMap<string, string>,
+    ): LuaMultiReturn<[number, string]> {
+        const matches = this._transactions.filter((tx) => {
+            return !!tx.metadata && !!string.find(tx.metadata, q, 1, true)[0];
+        });
+        matches.reverse();
+
+        const offset = tonumber(params.get("offset")) || 0;
+        const limit = tonumber(params.get("limit")) || 50;
+        const page = matches.slice(offset, offset + limit);
+        return this._ok({
+            count: page.length,
+            total: matches.length,
+            transactions: page.length > 0 ? page : textutils.empty_json_array,
+        });
+    }
+
+    /** Serves `GET /addresses/<address>`. */
+    private _lookupAddress(address: string): LuaMultiReturn<[number, string]> {
+        const info = this._addresses.get(address);
+        if (!info) { return this._error("address_not_found"); }
+        return this._ok({ address: { address, ...info } });
+    }
+
+    /** Serves `GET /names/<name>`. */
+    private _lookupName(name: string): LuaMultiReturn<[number, string]> {
+        const info = this._names.get(name);
+        if (!info) { return this._error("name_not_found"); }
+        return this._ok({ name: info });
+    }
+
+    /** Serves `POST /names/<name>`. */
+    private _purchaseName(
+        name: string,
+        body: string,
+    ): LuaMultiReturn<[number, string]> {
+        const req = textutils.unserializeJSON(body);
+        if (type(req) != "table" || type(req.privatekey) != "string") {
+            return this._error("invalid_parameter", "privatekey");
+        }
+        if (this._names.has(name)) { return this._error("name_taken"); }
+
+        const from = makev2address(req.privatekey);
+        if (this.getBalance(from) < NAME_COST) {
+            return this._error("insufficient_funds");
+        }
+
+        this.registerName(name, from);
+        this.pushTransaction({
+            type: "name_purchase",
+            from,
+            to: "name",
+            name,
+            value: NAME_COST,
+        });
+        return this._ok({ name: this._names.get(name) });
+    }
+
+    /** Serves `POST /names/<name>/transfer`. */
+    private _transferName(
+        name: string,
+        body: string,
+    ): LuaMultiReturn<[number, string]> {
+        const req = textutils.unserializeJSON(body);
+        if (type(req) != "table" || type(req.privatekey) != "string") {
+            return this._error("invalid_parameter", "privatekey");
+        }
+        if (type(req.address) != "string") {
+            return this._error("invalid_parameter", "address");
+        }
+
+        const info = this._names.get(name);
+        if (!info) { return this._error("name_not_found"); }
+        const from = makev2address(req.privatekey);
+        if (info.owner != from) { return this._error("not_name_owner"); }
+
+        info.owner = req.address;
+        info.updated = isoTime(os.epoch("utc"));
+        this.pushTransaction({
+            type: "name_transfer",
+            from,
+            to: req.address,
+            name,
+            value: 0,
+        });
+        return this._ok({ name: info });
+    }
+
+    /** Serves `POST /names/<name>/update`. */
+    private _updateName(
+        name: string,
+        body: string,
+    ): LuaMultiReturn<[number, string]> {
+        const req = textutils.unserializeJSON(body);
+        if (type(req) != "table" || type(req.privatekey) != "string") {
+            return this._error("invalid_parameter", "privatekey");
+        }
+        if (req.a != undefined && type(req.a) != "string") {
+            return this._error("invalid_parameter", "a");
+        }
+
+        const info = this._names.get(name);
+        if (!info) { return this._error("name_not_found"); }
+        const from = makev2address(req.privatekey);
+        if (info.owner != from) { return this._error("not_name_owner"); }
+
+        info.a = req.a != "" ? req.a : undefined;
+        info.updated = isoTime(os.epoch("utc"));
+        this.pushTransaction({
+            type: "name_a_record",
+            from,
+            to: "a",
+            name,
+            metadata: info.a,
+            value: 0,
+        });
+        return this._ok({ name: info });
+    }
+
+    /** Serves `POST /ws/start`. */
+    private _startSocket(): LuaMultiReturn<[number, string]> {
+        const [base] = string.gsub(this.endpoint, "^http", "ws");
+        const url = base + "/ws/gateway/" + uuid4();
+        this._startedSockets.set(url, true);
+        return this._ok({ url, expires: 30 });
+    }
+
+    /** Connects to a socket handed out by /ws/start. */
+    private _connect(url: string): SocketResult {
+        const path = string.match(url, "^wss?://[^/]*(/.*)$")[0] || url;
+        this.requests.push("WS " + path);
+        const fault = this._takeFault(path);
+        if (fault) { return $multi(false, "Could not connect"); }
+
+        this._startedSockets.delete(url);
+        this._sockets.set(url, false);
+        os.queueEvent("websocket_message", url, textutils.serializeJSON({
+            ok: true,
+            type: "hello",
+            motd: "Welcome to the mock Krist node",
+        }), false);
+
+        const handle: SocketHandle = {
+            receive: (timeout) => {
+                const timer = timeout && os.startTimer(timeout);
+                while (true) {
+                    const [ev, p1, p2] = os.pullEvent();
+                    if (ev == "websocket_message" && p1 == url) {
+                        if (timer) { os.cancelTimer(timer); }
+                        return p2;
+                    } else if (ev == "websocket_closed" && p1 == url) {
+                        return;
+                    } else if (ev == "timer" && p1 == timer) {
+                        return;
+                    }
+                }
+            },
+            send: (message) => {
+                if (!this._sockets.has(url)) { error("attempt to use a closed file"); }
+                const obj = textutils.unserializeJSON(message);
+                if (type(obj) != "table") { return; }
+                if (obj.type == "subscribe" && obj.event == "transactions") {
+                    this._sockets.set(url, true);
+                }
+                os.queueEvent("websocket_message", url, textutils.serializeJSON({
+                    ok: true,
+                    id: obj.id,
+                    type: "response",
+                    responding_to: obj.type,
+                }), false);
+            },
+            close: () => { this._sockets.delete(url); },
+        };
+
+        return $multi(handle);
+    }
+}
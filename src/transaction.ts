@@ -1,4 +1,4 @@
-import { ApiTransaction, parseTime } from "./util";
+import { ApiTransaction, parseNameRecipient, parseTime } from "./util";
 
 /** A Krist transacton, one of several types. */
 export type Transaction = {
@@ -43,7 +43,7 @@ export type Transfer = {
      *
      * Older software may send transfers by specifying the destination on the metadata
      * instead of the receiver's address field. These transfers will *not* set this
-     * field.
+     * field. Use `target` to handle both kinds of transfers.
      */
     sent_name?: string,
 
@@ -65,10 +65,48 @@ export type Transfer = {
      * - Parsing `"="` yields `{"": ""}`.
      * - Parsing `"a;b=c;d"` yields `{"b": "c"}`.
      * - Parsing `"Powered by = Kristify"` yields `{"Powered by ": " Kristify"}`
+     * - Parsing `'a="b;c";d=e'` yields `{"a": "b;c", "d": "e"}`.
+     * - Parsing `'a="b\\"c"'` yields `{"a": 'b"c'}`.
+     * - Parsing `'a="b'` yields `{"a": '"b'}` since the quote isn't terminated.
      */
     kv: LuaMap<string, string>,
+
+    /**
+     * All CommonMeta records specified in transaction metadata, in order. Unlike
+     * `kv`, this includes free-form records such as messages or a leading
+     * `"metaname@name.kst"` destination. Empty records are skipped.
+     */
+    records: MetaRecord[],
+
+    /**
+     * The name this transfer was sent to, if any.
+     *
+     * This is taken from `sent_name` and `sent_metaname` when the node sets them.
+     * Otherwise, it is taken from the first metadata record if it has the form
+     * `"metaname@name.kst"` or `"name.kst"`, which is where older software specifies
+     * the destination.
+     */
+    target?: TransferTarget,
 }
 
+/** A CommonMeta record, either a key-value pair or a free-form value. */
+export type MetaRecord = {
+    /** The record key, or nil if the record is free-form. */
+    key?: string,
+
+    /** The record value. */
+    value: string,
+};
+
+/** The name a transfer was sent to. */
+export type TransferTarget = {
+    /** The metaname (part before the `"@"`), if any. */
+    metaname?: string,
+
+    /** The name, without suffix. */
+    name: string,
+};
+
 /** A mining reward issued to an address. */
 export type MiningReward = {
     type: "mined",
@@ -126,19 +164,148 @@ export type Unknown = {
 
 export type TransactionOperation = KnownTransactionOperation | Unknown;
 
-function parseMeta(m: string): LuaMap<string, string> {
-    const kvMeta = new LuaMap<string, string>();
-    for (const [record] of string.gmatch(m, "[^;]+")) {
-        const [key, value] = string.match(record, "^([^=]*)=(.*)$");
-        if (key != undefined && value != undefined) {
-            kvMeta.set(key, value);
+/** Record keys which are reserved for kstream's own use in outgoing metadata. */
+export const RESERVED_META_KEYS = ["ref"];
+
+/**
+ * Parses a quoted value starting at the given position.
+ * @returns The unescaped value, or nil if the quotes aren't properly terminated by
+ *          the end of the record.
+ * @returns The position right after the record.
+ */
+function parseQuoted(
+    m: string,
+    start: number,
+): LuaMultiReturn<[string | undefined, number]> {
+    const out = [];
+    let i = start + 1;
+    while (i <= m.length) {
+        const c = string.sub(m, i, i);
+        if (c == "\\" && i < m.length) {
+            out.push(string.sub(m, i + 1, i + 1));
+            i += 2;
+        } else if (c == "\"") {
+            const next = string.sub(m, i + 1, i + 1);
+            if (next != "" && next != ";") { break; }
+            return $multi(table.concat(out), i + 2);
+        } else {
+            out.push(c);
+            i++;
+        }
+    }
+    return $multi(undefined, start);
+}
+
+/** Splits metadata into its CommonMeta records. */
+function parseRecords(m: string): MetaRecord[] {
+    const out: MetaRecord[] = [];
+    let i = 1;
+    while (i <= m.length) {
+        const [sep] = string.find(m, "[=;]", i);
+        if (!sep || string.sub(m, sep, sep) == ";") {
+            // A free-form record.
+            const stop = sep || m.length + 1;
+            if (stop > i) { out.push({ value: string.sub(m, i, stop - 1) }); }
+            i = stop + 1;
+            continue;
+        }
+
+        // A key-value record, with a value that may be quoted.
+        const key = string.sub(m, i, sep - 1);
+        if (string.sub(m, sep + 1, sep + 1) == "\"") {
+            const [value, next] = parseQuoted(m, sep + 1);
+            if (value != undefined) {
+                out.push({ key, value });
+                i = next;
+                continue;
+            }
         }
+
+        const [stop] = string.find(m, ";", sep + 1, true);
+        out.push({ key, value: string.sub(m, sep + 1, (stop || m.length + 1) - 1) });
+        i = (stop || m.length + 1) + 1;
+    }
+    return out;
+}
+
+function parseMeta(records: MetaRecord[]): LuaMap<string, string> {
+    const kvMeta = new LuaMap<string, string>();
+    for (const record of records) {
+        if (record.key != undefined) { kvMeta.set(record.key, record.value); }
     }
     return kvMeta;
 }
 
+/**
+ * Finds the name a transfer was sent to.
+ * @param tx The transfer.
+ * @param records The transfer's parsed metadata records.
+ * @returns The target, or nil if the transfer wasn't sent to a name.
+ */
+export function getTarget(
+    tx: ApiTransaction,
+    records = parseRecords(tx.metadata || ""),
+): TransferTarget | undefined {
+    if (tx.sent_name) { return { metaname: tx.sent_metaname, name: tx.sent_name }; }
+    const first = records[0];
+    if (!first || first.key != undefined) { return; }
+    const [name, metaname] = parseNameRecipient(first.value);
+    if (name) { return { metaname, name }; }
+}
+
+/** Quotes a record value if it would otherwise be misread by {@link parseRecords()}. */
+function encodeValue(v: string): string {
+    const quoted = string.sub(v, 1, 1) == "\"";
+    if (!quoted && !string.find(v, ";", 1, true)[0]) { return v; }
+    return "\"" + string.gsub(v, "[\\\"]", "\\%0")[0] + "\"";
+}
+
+/**
+ * Returns whether a string can be used as an outgoing CommonMeta key. Keys can't
+ * contain `"="` or `";"`, can't start with a quote, and can't be reserved.
+ */
+export function isValidMetaKey(k: string): boolean {
+    if (string.find(k, "[=;]")[0] || string.sub(k, 1, 1) == "\"") { return false; }
+    return !RESERVED_META_KEYS.includes(k);
+}
+
+/**
+ * Encodes outgoing CommonMeta key-value pairs into transaction metadata.
+ *
+ * Records are written in the given order, and the keys left out of it follow in key
+ * order, so the same pairs always encode the same way. Values that contain `";"` or
+ * start with a quote are quoted, escaping quotes and backslashes inside of them with a
+ * backslash.
+ *
+ * @param meta The key-value pairs. Keys must be valid according to
+ *             {@link isValidMetaKey()}.
+ * @param ref The ref UUID to append for tracking the transaction.
+ * @param order The order to write keys in. Must only have distinct keys of `meta`.
+ */
+export function encodeMeta(
+    meta: LuaMap<string, string>,
+    ref: string,
+    order: string[] = [],
+): string {
+    const ordered = new LuaMap<string, boolean>();
+    for (const k of order) { ordered.set(k, true); }
+    const rest: string[] = [];
+    for (const [k] of meta) {
+        if (!ordered.has(k)) { rest.push(k); }
+    }
+    table.sort(rest);
+
+    const out = [];
+    for (const k of [...order, ...rest]) {
+        out.push(k + "=" + encodeValue(meta.get(k)!));
+    }
+    out.push("ref=" + ref);
+    return table.concat(out, ";");
+}
+
 export function parseApiTx(tx: ApiTransaction): Transaction {
     if (tx.type == "transfer") {
+        const records = parseRecords(tx.metadata || "");
         return {
             id: tx.id,
             time: tx.time,
@@ -150,7 +317,9 @@ export function parseApiTx(tx: ApiTransaction): Transaction {
             metadata: tx.metadata,
             sent_name: tx.sent_name,
             sent_metaname: tx.sent_metaname,
-            kv: parseMeta(tx.metadata || ""),
+            kv: parseMeta(records),
+            records,
+            target: getTarget(tx, records),
         };
     } else if (tx.type == "mined") {
         return {
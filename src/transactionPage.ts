@@ -1,4 +1,4 @@
-import { request } from "./http";
+import { EndpointPool } from "./http";
 import { TransactionSet } from "./transactionSet";
 import {
     ApiTransaction,
@@ -19,6 +19,9 @@ export class TransactionPage {
     /** The total of transactions matching the filter returned by the node. */
     public readonly total: number;
 
+    /** The endpoint that returned this page. */
+    public readonly endpoint: string;
+
     /** The page offset, in ascending order of id. */
     private _offset: number;
 
@@ -32,6 +35,7 @@ export class TransactionPage {
         page: ApiTransaction[],
         set: TransactionSet,
         total: number,
+        endpoint: string,
         offset: number,
         timestampBefore: number,
         timestampAfter: number,
@@ -39,6 +43,7 @@ export class TransactionPage {
         this.page = page;
         this.set = set;
         this.total = total;
+        this.endpoint = endpoint;
         this._offset = offset;
         this._timestampBefore = timestampBefore;
         this._timestampAfter = timestampAfter;
@@ -46,30 +51,51 @@ export class TransactionPage {
 
     /**
      * Fetches transactions.
-     * @param endpoint The krist node to fetch from.
+     * @param endpoints The krist nodes to fetch from.
      * @param set The transaction set to fetch from.
      * @param offset The offset into the transaction list.
      * @param limit The limit on the amount of fetched transactions.
      * @param ascending Whether to use ascending or descending order.
+     * @param deadline A deadline to give up fetching, hit when os.clock() is greater
+     * than it.
+     * @returns The page, or nil if the deadline was hit.
      */
     public static fetch(
-        endpoint: string,
+        endpoints: EndpointPool,
+        set: TransactionSet,
+        offset: number,
+        limit: number,
+        ascending: boolean,
+    ): TransactionPage;
+    public static fetch(
+        endpoints: EndpointPool,
+        set: TransactionSet,
+        offset: number,
+        limit: number,
+        ascending: boolean,
+        deadline?: number,
+    ): TransactionPage | undefined;
+    public static fetch(
+        endpoints: EndpointPool,
         set: TransactionSet,
         offset: number,
         limit: number,
         ascending: boolean,
-    ): TransactionPage {
+        deadline?: number,
+    ): TransactionPage | undefined {
         assert(offset >= 0 && offset < 2 ** 48 && offset % 1 == 0);
         assert(limit > 0 && limit <= 1000 && limit % 1 == 0);
 
-        const url = endpoint + set.getQuery(offset, limit, ascending);
+        const path = set.getQuery(offset, limit, ascending);
         const timestampBefore = os.epoch("utc");
-        const handle = request({ method: "GET", url, body: "" })!;
+        const req = { method: "GET", url: path, body: "" };
+        const handle = endpoints.request(req, deadline);
+        if (!handle) { return; }
         assert(handle.ok, handle.msg);
         const s = handle.h.readAll() || "";
         const timestampAfter = os.epoch("utc");
 
-        const obj = parseJson(s, url);
+        const obj = parseJson(s, handle.url);
         const res = expectOk<ApiTransactionResponse>(obj);
         const page = res.transactions.toSorted((a, b) => a.id - b.id);
         const ascOffset = ascending ? offset : res.total - offset - page.length;
@@ -78,6 +104,7 @@ export class TransactionPage {
             page,
             set,
             res.total,
+            handle.endpoint,
             ascOffset,
             timestampBefore,
             timestampAfter,
@@ -116,16 +143,16 @@ const TX_FETCH_LIMIT = 50;
 
 /**
  * Finds a transaction offset at or after the given ID.
- * @param endpoint The Krist endpoint.
+ * @param endpoints The Krist endpoints.
  * @param id The transaction ID, or -1 for finding the first transaction.
  * @returns The offset, or nil if the transaction ID comes after the last transaction.
  */
 export function findTransaction(
-    endpoint: string,
+    endpoints: EndpointPool,
     set: TransactionSet,
     id: number,
 ): number | undefined {
-    const last = TransactionPage.fetch(endpoint, set, 0, TX_FETCH_LIMIT, false);
+    const last = TransactionPage.fetch(endpoints, set, 0, TX_FETCH_LIMIT, false);
 
     if (id == -1) {
         // Return offset 0 if there's a transaction there.
@@ -163,25 +190,25 @@ export function findTransaction(
         midK = math.min(midK, maxK - 1);
         midK = math.max(midK, minK + 1);
 
-        const midTx = TransactionPage.fetch(endpoint, set, midK, 1, true).page[0];
-        if (!midTx) { return findTransaction(endpoint, set, id); }
+        const midTx = TransactionPage.fetch(endpoints, set, midK, 1, true).page[0];
+        if (!midTx) { return findTransaction(endpoints, set, id); }
 
         const midV = midTx.id;
         if (midV < id) {
-            if (midV < minV) { return findTransaction(endpoint, set, id); }
+            if (midV < minV) { return findTransaction(endpoints, set, id); }
             minK = midK;
             minV = midV;
         } else {
-            if (midV > maxV) { return findTransaction(endpoint, set, id); }
+            if (midV > maxV) { return findTransaction(endpoints, set, id); }
             maxK = midK;
             maxV = midV;
         }
     }
 
     // Because I don't trust the search completely, validate its results.
-    const edges = TransactionPage.fetch(endpoint, set, minK, 2, true);
+    const edges = TransactionPage.fetch(endpoints, set, minK, 2, true);
     if (edges.page[0].id >= id || edges.page[1].id < id) {
-        return findTransaction(endpoint, set, id);
+        return findTransaction(endpoints, set, id);
     }
 
     return maxK;
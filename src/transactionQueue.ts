@@ -60,7 +60,6 @@ export class TransactionQueue {
     /**
      * Tries pushing a sole transaction into the queue. Only succeeds if the transaction
      * ID comes immediately after the last seen ID in the queue.
-     * @param endpoint The endpoint that returned this transaction.
      * @param tx The transaction.
      * @returns Whether the push was successful.
      */
@@ -117,7 +116,7 @@ export class TransactionQueue {
      * 3. Point A happens earlier than B.
      *
      * These facts are provided by a pair of pages (`last`, `next`) which match these
-     * properties.
+     * properties, and were both returned by the same endpoint.
      *
      * @param last The last page of the queue's set.
      * @param next A page from a superset which contains a transaction that came later,
@@ -128,6 +127,9 @@ export class TransactionQueue {
     public tryPushUnseen(last: TransactionPage, next: TransactionPage): boolean {
         if (!this._set.isSubset(last.set)) { return false; }
         if (!last.set.isSubset(next.set)) { return false; }
+
+        // Nodes may lag behind each other, so both pages must come from the same one.
+        if (last.endpoint != next.endpoint) { return false; }
         if (!next.wasQueriedBefore(last)) { return false; }
 
         // The next page must have a transaction. This method is only called after a
@@ -1,42 +1,165 @@
+import { getTarget } from "./transaction";
 import { ApiTransaction } from "./util";
 
+/**
+ * The maximum amount of addresses to look up transactions for in a single query. Sets
+ * with more addresses are queried for all transactions and filtered locally instead.
+ */
+const MAX_LOOKUP_ADDRESSES = 32;
+
+/** Which side of a transaction the set's addresses should be on. */
+export type Direction = "in" | "out" | "both";
+
+/** Filters that narrow down a set beyond what a node query can. */
+export type TransactionFilters = {
+    /** Transaction types to keep, such as "transfer" or "name_purchase". */
+    types?: string[],
+
+    /**
+     * Whether to keep transactions sent to the addresses ("in"), sent from them
+     * ("out"), or both. Defaults to "both". Has no effect if there are no addresses.
+     */
+    direction?: Direction,
+
+    /**
+     * A name, without suffix, to keep transfers sent to. Both transfers sent through
+     * the name and transfers declaring it in their metadata count, but the latter only
+     * if they were sent to one of the set's addresses, since anyone can declare any
+     * name.
+     */
+    name?: string,
+
+    /** A metaname to keep transfers sent to, if narrowing down to a name. */
+    metaname?: string,
+};
+
 /** An abstract set of transactions. */
 export class TransactionSet {
     /** Contains mining reward transactions. */
     public readonly includeMined: boolean;
 
-    /** Narrows down to transactions to/from some address. */
-    public readonly address?: string;
+    /** Narrows down to transactions to/from any of these addresses. */
+    public readonly addresses?: string[];
+
+    /** Narrows down to transactions of any of these types. */
+    public readonly types?: string[];
+
+    /** Which side of a transaction the addresses should be on. */
+    public readonly direction: Direction;
+
+    /** Narrows down to transfers sent to this name. */
+    public readonly name?: string;
+
+    /** Narrows down to transfers sent to this metaname of {@link name}. */
+    public readonly metaname?: string;
 
-    public constructor(includeMined: boolean, address?: string) {
+    /** The addresses as a lookup table, if narrowing down. */
+    private _addressLookup?: LuaMap<string, boolean>;
+
+    /** The types as a lookup table, if narrowing down. */
+    private _typeLookup?: LuaMap<string, boolean>;
+
+    public constructor(
+        includeMined: boolean,
+        addresses?: string[],
+        filters: TransactionFilters = {},
+    ) {
         this.includeMined = includeMined;
-        this.address = address;
+        this.addresses = addresses;
+        this.types = filters.types;
+        this.direction = filters.direction || "both";
+        this.name = filters.name;
+        this.metaname = filters.metaname;
+        if (addresses) {
+            this._addressLookup = new LuaMap();
+            for (const address of addresses) { this._addressLookup.set(address, true); }
+        }
+        if (filters.types) {
+            this._typeLookup = new LuaMap();
+            for (const kind of filters.types) { this._typeLookup.set(kind, true); }
+        }
     }
 
     public static all(): TransactionSet {
         return new TransactionSet(true);
     }
 
+    /** Returns whether the set narrows down to a given address. */
+    public hasAddress(address?: string): boolean {
+        if (!this._addressLookup) { return true; }
+        return !!address && this._addressLookup.has(address);
+    }
+
+    /** Returns whether the set narrows down to a given transaction type. */
+    public hasType(type: string): boolean {
+        if (!this._typeLookup) { return true; }
+        return this._typeLookup.has(type);
+    }
+
     public isSubset(other: TransactionSet): boolean {
-        if (other.address && this.address != other.address) { return false; }
+        if (other.addresses) {
+            if (!this.addresses) { return false; }
+            for (const address of this.addresses) {
+                if (!other.hasAddress(address)) { return false; }
+            }
+        }
+        if (other.addresses && other.direction != "both") {
+            if (this.direction != other.direction) { return false; }
+        }
+        if (other.types) {
+            if (!this.types) { return false; }
+            for (const kind of this.types) {
+                if (!other.hasType(kind)) { return false; }
+            }
+        }
+        if (other.name && this.name != other.name) { return false; }
+        if (other.metaname && this.metaname != other.metaname) { return false; }
         if (this.includeMined && !other.includeMined) { return false; }
         return true;
     }
 
     public contains(transaction: ApiTransaction): boolean {
         if (!this.includeMined && transaction.type == "mined") { return false; }
-        if (
-            this.address &&
-            transaction.from != this.address &&
-            transaction.to != this.address
-        ) { return false; }
+        if (!this.hasType(transaction.type)) { return false; }
+        if (this.addresses) {
+            const isIn = this.hasAddress(transaction.to);
+            const isOut = this.hasAddress(transaction.from);
+            if (this.direction == "in" && !isIn) { return false; }
+            if (this.direction == "out" && !isOut) { return false; }
+            if (!isIn && !isOut) { return false; }
+        }
+        if (this.name) {
+            if (transaction.type != "transfer") { return false; }
+            const target = getTarget(transaction);
+            if (!target || target.name != this.name) { return false; }
+            if (this.metaname && target.metaname != this.metaname) { return false; }
+
+            // The node only sets sent_name after resolving the name to its owner. A
+            // name that is only declared in the metadata could be on a transfer to
+            // anyone, so it needs to be one to our own addresses.
+            const owned = this.addresses && this.hasAddress(transaction.to);
+            if (!transaction.sent_name && !owned) { return false; }
+        }
         return true;
     }
 
+    /**
+     * Returns a superset of this set which can be fetched from a node with a single
+     * query. Transactions from the superset must then be filtered with
+     * {@link contains()}.
+     */
+    public getQuerySet(): TransactionSet {
+        const includeMined = this.includeMined && this.hasType("mined");
+        if (this.addresses && this.addresses.length > MAX_LOOKUP_ADDRESSES) {
+            return new TransactionSet(includeMined);
+        }
+        return new TransactionSet(includeMined, this.addresses);
+    }
+
     public getQuery(offset: number, limit: number, ascending: boolean): string {
         return string.format(
             "/lookup/transactions/%s?&order=%s&%s&offset=%d&limit=%d",
-            this.address || "",
+            this.addresses ? table.concat(this.addresses, ",") : "",
             ascending ? "ASC" : "DESC",
             this.includeMined ? "includeMined" : "",
             offset,
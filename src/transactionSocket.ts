@@ -1,4 +1,4 @@
-import { request } from "./http";
+import { EndpointPool } from "./http";
 import { expectOk, ApiTransaction, parseJson } from "./util";
 import { reseed } from "./uuid";
 
@@ -17,8 +17,8 @@ type ApiSocketResponse = {
 
 /** A class for fetching *all* incoming transactions from a Krist socket. */
 export class TransactionSocket {
-    /** The Krist endpoint. */
-    private _endpoint: string;
+    /** The Krist endpoints. */
+    private _endpoints: EndpointPool;
 
     /** The current socket URL, if any. */
     private _url?: string;
@@ -36,11 +36,11 @@ export class TransactionSocket {
     private _statusCb: (isUp: boolean) => void;
 
     public constructor(
-        endpoint: string,
+        endpoints: EndpointPool,
         transactionCb: (tx: ApiTransaction) => void,
         statusCb: (isUp: boolean) => void,
     ) {
-        this._endpoint = endpoint;
+        this._endpoints = endpoints;
         this._transactionCb = transactionCb;
         this._statusCb = statusCb;
     }
@@ -54,14 +54,14 @@ export class TransactionSocket {
         }
     }
 
-    /** Reopens a socket. */
+    /** Reopens a socket on the first endpoint that lets us connect. */
     private _reopen() {
         this.close();
-        const url = this._endpoint + "/ws/start";
         while (true) {
-            const handle = request({ method: "POST", url, body: "{}" })!;
+            const req = { method: "POST", url: "/ws/start", body: "{}" };
+            const handle = this._endpoints.request(req)!;
             assert(handle.ok, handle.msg);
-            const obj = parseJson(handle.h.readAll() || "", url);
+            const obj = parseJson(handle.h.readAll() || "", handle.url);
             const response = expectOk<ApiSocketResponse>(obj);
             const [socket] = http.websocket({
                 url: response.url,
@@ -79,6 +79,9 @@ export class TransactionSocket {
                 }));
                 return;
             }
+
+            // Move on to another endpoint if this one can't give us a socket.
+            this._endpoints.reportFailure(handle.endpoint);
         }
     }
 
@@ -109,7 +112,7 @@ export class TransactionSocket {
                     this._onMessage(ev[2]);
                     os.cancelTimer(keepaliveTimer);
                     break;
-                } else if (ev[1] == "websocket_closed" && ev[1] == this._url) {
+                } else if (ev[0] == "websocket_closed" && ev[1] == this._url) {
                     this._statusCb(false);
                     this._reopen();
                     os.cancelTimer(keepaliveTimer);
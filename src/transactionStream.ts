@@ -4,14 +4,15 @@ import { ApiTransaction } from "./util";
 import { TransactionSet } from "./transactionSet";
 import { TransactionPage, findTransaction } from "./transactionPage";
 import { Mutex } from "./mutex";
+import { EndpointPool } from "./http";
 
 /** How many transactions to fetch at once when populating the stream. */
 const POPULATE_BLOCK_SIZE = 50;
 
 /** A reliably delivered stream of transactions. */
 export class TransactionStream {
-    /** The Krist endpoint. */
-    private _endpoint: string;
+    /** The Krist endpoints. */
+    private _endpoints: EndpointPool;
 
     /** The transaction socket. */
     private _socket: TransactionSocket;
@@ -60,15 +61,19 @@ export class TransactionStream {
     /** Updates the last pop offset. */
     private _updateOffset() {
         this._lastPoppedOffset = findTransaction(
-            this._endpoint,
+            this._endpoints,
             this._set,
             this._lastPoppedId,
         );
         if (!this._lastPoppedOffset) { this._hasReachedTail = true; }
     }
 
-    public constructor(endpoint: string, set: TransactionSet, lastPoppedId: number) {
-        this._endpoint = endpoint;
+    public constructor(
+        endpoints: EndpointPool,
+        set: TransactionSet,
+        lastPoppedId: number,
+    ) {
+        this._endpoints = endpoints;
         this._lastPoppedId = lastPoppedId;
         this._isUp = false;
         this._set = set;
@@ -90,7 +95,7 @@ export class TransactionStream {
             os.queueEvent("kstream_stream_status");
         };
 
-        this._socket = new TransactionSocket(endpoint, transactionCb, statusCb);
+        this._socket = new TransactionSocket(endpoints, transactionCb, statusCb);
     }
 
     /**
@@ -101,8 +106,8 @@ export class TransactionStream {
     private _fillTailHoles(): void {
         const bs = POPULATE_BLOCK_SIZE;
         const all = TransactionSet.all();
-        const next = TransactionPage.fetch(this._endpoint, all, 0, bs, false);
-        const last = TransactionPage.fetch(this._endpoint, this._set, 0, bs, false);
+        const next = TransactionPage.fetch(this._endpoints, all, 0, bs, false);
+        const last = TransactionPage.fetch(this._endpoints, this._set, 0, bs, false);
         this._queue.tryPushUnseen(last, next);
         this._hasTailHole = false;
     }
@@ -120,7 +125,7 @@ export class TransactionStream {
         // transaction before our last) so we can connect both pages.
         const offset = math.max(0, this._lastPoppedOffset - 1);
         const page = TransactionPage.fetch(
-            this._endpoint,
+            this._endpoints,
             this._set,
             offset,
             POPULATE_BLOCK_SIZE,
@@ -85,6 +85,30 @@ export type ApiAddressResponse = {
     },
 }
 
+/** The response from a name query. */
+export type ApiNameResponse = {
+    ok: true,
+    name: {
+        /** The name, without the .kst suffix. */
+        name: string,
+
+        /** The address of the current owner. */
+        owner: string,
+
+        /** The address of the original purchaser. */
+        original_owner: string,
+
+        /** The time the name was registered, as an ISO-8601 string. */
+        registered: string,
+
+        /** The time the name was last updated, as an ISO-8601 string. */
+        updated: string,
+
+        /** The name's A record, if any. */
+        a?: string,
+    },
+};
+
 /** The interesting attributes of an API extended search response. */
 export type ApiSearchResponse = {
     ok: true,
@@ -95,6 +119,44 @@ export type ApiSearchResponse = {
     },
 };
 
+/** The maximum length of transaction metadata and name records. */
+export const MAX_METADATA_LENGTH = 255;
+
+/** Returns whether a string is a valid Krist address. */
+export function isAddress(s: string): boolean {
+    if (s.length != 10) { return false; }
+    return !!string.find(s, "^k[a-z0-9]+$")[0] || !!string.find(s, "^[a-f0-9]+$")[0];
+}
+
+/** Returns whether a string is a valid Krist name, without the .kst suffix. */
+export function isName(s: string): boolean {
+    return s.length >= 1 && s.length <= 64 && !!string.find(s, "^[a-z0-9]+$")[0];
+}
+
+/**
+ * Parses a name recipient of the form `"metaname@name.kst"` or `"name.kst"`.
+ * @param s The recipient.
+ * @returns The name without suffix, or nil if the recipient isn't a valid name.
+ * @returns The metaname, or nil if there is none.
+ */
+export function parseNameRecipient(
+    s: string,
+): LuaMultiReturn<[string | undefined, string | undefined]> {
+    const [metaname, name] = string.match(s, "^([^@]*)@([^@]*)%.kst$");
+    if (metaname != undefined && name != undefined) {
+        const valid = metaname.length >= 1 &&
+            metaname.length <= 32 &&
+            !!string.find(metaname, "^[%w_-]+$")[0] &&
+            isName(name);
+        if (valid) { return $multi(name, metaname); }
+        return $multi(undefined, undefined);
+    }
+
+    const [bare] = string.match(s, "^(.*)%.kst$");
+    if (bare && isName(bare)) { return $multi(bare, undefined); }
+    return $multi(undefined, undefined);
+}
+
 export function hex(str: string): string {
     return string.format(string.rep("%02x", str.length), ...string.byte(str, 1, -1));
 }
@@ -140,7 +202,7 @@ export function parseTime(timestamp: string) {
     const minute = tonumber(sMinute)!;
     const second = tonumber(sSecond)!;
 
-    const days = year / 4 * (365 * 4 + 1) + DAYS[year % 4][month] + day;
+    const days = math.floor(year / 4) * (365 * 4 + 1) + DAYS[year % 4][month] + day;
     const hours = days * 24 + hour;
     const minutes = hours * 60 + minute;
     const seconds = minutes * 60 + second;
@@ -0,0 +1,27 @@
+import { MockNode } from "../src/testing";
+import { ADDRESS, Check, PAYEE, check, transfer, waitFor, withStream } from "./harness";
+
+/** Transfers go through a mirror while the preferred node answers with 5xx errors. */
+function failover() {
+    const primary = MockNode.create("https://primary.mock");
+    const mirror = MockNode.create("https://mirror.mock");
+    primary.setBalance(ADDRESS, 100);
+    mirror.setBalance(ADDRESS, 100);
+    primary.fail({ kind: "error", code: 503, times: math.huge });
+
+    withStream("failover", [primary, mirror], (stream) => {
+        let sent: string | undefined;
+        stream.onSendSuccess = (_ctx, _tx, uuid) => { sent = uuid; };
+
+        const id = stream.send(transfer(10));
+        check(id != undefined, "the transfer wasn't enqueued");
+        waitFor("the transfer to be sent", () => sent == id);
+        check(primary.requests.length > 0, "the primary node was never tried");
+        check(primary.getBalance(PAYEE) == 0, "the primary node made the transfer");
+        check(mirror.getBalance(PAYEE) == 10, "the mirror didn't make the transfer");
+    });
+}
+
+export const checks: Check[] = [
+    ["failover", failover],
+];
@@ -0,0 +1,46 @@
+import { MockNode } from "../src/testing";
+import { ADDRESS, Check, PAYEE, check, transfer, waitFor, withStream } from "./harness";
+
+/** The guard rejects transfers from an address the node has never seen. */
+function rejectUnfunded() {
+    const node = MockNode.create();
+
+    withStream("reject", [node], (stream) => {
+        stream.fundsGuard = "reject";
+        check(stream.send(transfer(5)) == undefined, "an unfunded transfer was let in");
+    });
+}
+
+/** The guard holds back transfers until their sender can cover them. */
+function deferUntilFunded() {
+    const node = MockNode.create();
+
+    withStream("defer", [node], (stream) => {
+        stream.fundsGuard = "defer";
+        check(stream.send(transfer(5)) != undefined, "a deferred transfer was refused");
+
+        sleep(1);
+        check(node.getBalance(PAYEE) == 0, "an unfunded transfer went out");
+        node.setBalance(ADDRESS, 10);
+        waitFor("the transfer to be sent", () => node.getBalance(PAYEE) == 5);
+    });
+}
+
+/** A garbled balance lookup leaves the balance unknown, so the transfer waits. */
+function garbledLookup() {
+    const node = MockNode.create();
+    node.setBalance(ADDRESS, 10);
+
+    withStream("garbled", [node], (stream) => {
+        stream.fundsGuard = "reject";
+        node.fail({ kind: "error", code: 200, body: "<html>", path: "^/addresses/" });
+        check(stream.send(transfer(5)) != undefined, "an unknown balance was refused");
+        waitFor("the transfer to be sent", () => node.getBalance(PAYEE) == 5);
+    });
+}
+
+export const checks: Check[] = [
+    ["unfunded rejection", rejectUnfunded],
+    ["deferral until funded", deferUntilFunded],
+    ["garbled balance lookup", garbledLookup],
+];
@@ -0,0 +1,126 @@
+import { makev2address } from "../src/address";
+import { OutgoingTransfer } from "../src/state";
+import { Stream } from "../src/stream";
+import { MockNode } from "../src/testing";
+import { TransactionFilters } from "../src/transactionSet";
+
+/** The directory checks keep their streams in. */
+const ROOT = "/.kstream-tests";
+
+/** How long to wait for something to happen before failing a check, in seconds. */
+const WAIT_TIMEOUT = 60;
+
+/** The private key that checks send from. */
+export const KEY = "kstream-tests";
+
+/** The address that checks send from and follow. */
+export const ADDRESS = makev2address(KEY);
+
+/** The address that checks send to. */
+export const PAYEE = "kpayee0000";
+
+/** A named check, which passes unless it raises an error. */
+export type Check = [string, () => void];
+
+/** How {@link withStream()} sets up its stream. */
+export type StreamOptions = {
+    /** The addresses to follow. Defaults to the check address. */
+    addresses?: string[],
+
+    /** Extra filters for the stream's transactions. */
+    filters?: TransactionFilters,
+};
+
+/** Raises an error on the caller's behalf if a condition doesn't hold. */
+export function check(condition: boolean, message: string) {
+    if (!condition) { error(message, 2); }
+}
+
+/** Waits until a condition holds, raising an error if it takes too long. */
+export function waitFor(what: string, condition: () => boolean) {
+    const deadline = os.clock() + WAIT_TIMEOUT;
+    while (!condition()) {
+        if (os.clock() > deadline) { error("timed out waiting for " + what, 2); }
+        sleep(0.1);
+    }
+}
+
+/** Makes a transfer of some amount from the check address to the payee. */
+export function transfer(amount: number): OutgoingTransfer {
+    return {
+        type: "transfer",
+        amount,
+        to: PAYEE,
+        privateKey: KEY,
+        meta: new LuaMap(),
+        ud: undefined,
+    };
+}
+
+/**
+ * Runs a check body next to a fresh stream on some mock nodes, then tears everything
+ * down. The stream's hooks do nothing until the body replaces them.
+ * @param name The check name, which picks the stream's directory.
+ * @param nodes The nodes to install, in order of preference.
+ * @param body The check body. The stream stops running once it returns.
+ * @param options How to set up the stream.
+ */
+export function withStream(
+    name: string,
+    nodes: MockNode[],
+    body: (stream: Stream) => void,
+    options: StreamOptions = {},
+) {
+    const dir = fs.combine(ROOT, name);
+    fs.delete(dir);
+    for (const node of nodes) { node.install(); }
+
+    const [ok, err] = pcall(() => {
+        Stream.create(
+            dir,
+            nodes.map((node) => node.endpoint),
+            options.addresses || ADDRESS,
+            false,
+            options.filters,
+        );
+        const stream = Stream.open(dir);
+        stream.onTransaction = () => undefined;
+        stream.onSendSuccess = () => undefined;
+        stream.onSendFailure = () => undefined;
+
+        const [ran, runErr] = pcall(() => parallel.waitForAny(
+            () => body(stream),
+            () => stream.run(),
+            ...nodes.map((node) => () => node.run()),
+        ));
+        stream.close();
+        if (!ran) { throw runErr; }
+    });
+
+    for (const node of [...nodes].reverse()) { node.uninstall(); }
+    fs.delete(dir);
+    if (!ok) { throw err; }
+}
+
+/**
+ * Runs checks in order and prints a line for each.
+ * @param checks The checks to run.
+ * @throws If any of the checks failed.
+ */
+export function runChecks(checks: Check[]) {
+    let failures = 0;
+    for (const [name, fn] of checks) {
+        const [ok, err] = pcall(() => fn());
+        if (ok) {
+            print("PASS " + name);
+        } else {
+            failures++;
+            printError("FAIL " + name + ": " + tostring(err));
+        }
+    }
+    fs.delete(ROOT);
+
+    if (failures > 0) {
+        error(string.format("%d of %d checks failed", failures, checks.length), 0);
+    }
+}
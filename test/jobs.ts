@@ -0,0 +1,43 @@
+import { MockNode } from "../src/testing";
+import { Check, check, waitFor, withStream } from "./harness";
+
+/**
+ * Failing jobs are recorded and retried with their original payload, and jobs wait for
+ * their handler.
+ */
+function retries() {
+    const node = MockNode.create();
+
+    withStream("jobs", [node], (stream) => {
+        let calls = 0;
+        let seen: unknown;
+        stream.jobHandlers.set("flaky", (payload) => {
+            calls++;
+            const p = <{ n: number }>payload;
+            seen = p.n;
+            p.n++;
+            if (calls == 1) { error("first try fails"); }
+        });
+
+        stream.begin((ctx) => {
+            ctx.enqueueJob("flaky", { n: 1 });
+            ctx.enqueueJob("orphan");
+        });
+
+        const find = (kind: string) => stream.getJobs().find((j) => j.kind == kind);
+        waitFor("the flaky job to fail", () => find("flaky")?.attempts == 1);
+        const [found] = string.find(find("flaky")!.lastError || "", "first try fails");
+        check(found != undefined, "the job's error wasn't recorded");
+        waitFor("the flaky job to be retried", () => find("flaky") == undefined);
+        check(calls == 2, string.format("expected 2 calls, got %d", calls));
+        check(seen == 1, "a retry saw the payload changed by the last try");
+
+        waitFor("the orphan job to fail", () => find("orphan")?.attempts != undefined);
+        stream.jobHandlers.set("orphan", () => undefined);
+        waitFor("the orphan job to run", () => find("orphan") == undefined);
+    });
+}
+
+export const checks: Check[] = [
+    ["job retries", retries],
+];
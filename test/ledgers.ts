@@ -0,0 +1,33 @@
+import { MockNode } from "../src/testing";
+import { ADDRESS, Check, check, withStream } from "./harness";
+
+/** An address the node has never seen starts with a balance of 0. */
+function freshAddress() {
+    const node = MockNode.create();
+
+    withStream("fresh", [node], (stream) => {
+        check(stream.getBalance(ADDRESS) == 0, "a fresh address has a balance");
+        const ledger = stream.getLedger(ADDRESS);
+        check(ledger != undefined, "a fresh address has no ledger");
+        check(ledger!.balance == 0, "a fresh address's ledger has a balance");
+        const drift = stream.reconcile();
+        check(drift.get(ADDRESS) == 0, "a fresh address drifted");
+    });
+}
+
+/** A refused balance lookup gives nil instead of raising an error. */
+function refusedLookup() {
+    const node = MockNode.create();
+    node.setBalance(ADDRESS, 100);
+
+    withStream("refused", [node], (stream) => {
+        node.fail({ kind: "error", code: 403, path: "^/addresses/" });
+        check(stream.getBalance(ADDRESS) == undefined, "a refused lookup gave one");
+        check(stream.getBalance(ADDRESS) == 100, "a later lookup didn't give one");
+    });
+}
+
+export const checks: Check[] = [
+    ["fresh address", freshAddress],
+    ["refused balance lookup", refusedLookup],
+];
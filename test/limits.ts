@@ -0,0 +1,95 @@
+import { MockNode } from "../src/testing";
+import { ADDRESS, Check, PAYEE, check, transfer, waitFor, withStream } from "./harness";
+
+/** A spending limit trips, holds the sender back, and lets it through once reset. */
+function tripAndReset() {
+    const node = MockNode.create();
+    node.setBalance(ADDRESS, 100);
+
+    withStream("limits", [node], (stream) => {
+        let tripped: string | undefined;
+        stream.onLimitExceeded = (_ctx, address, limit) => {
+            if (address == ADDRESS) { tripped = limit; }
+        };
+
+        // Trip the limit in the same hook, so the first transfer can't get out before.
+        let admitted, refused;
+        stream.begin((ctx) => {
+            ctx.setSpendingLimit(ADDRESS, { maxAmount: 10 });
+            admitted = ctx.enqueueSend(transfer(5)) != undefined;
+            refused = ctx.enqueueSend(transfer(50)) == undefined;
+        });
+        check(admitted == true, "a transfer within the limit was refused");
+        check(refused == true, "a transfer over the limit was let in");
+        waitFor("the limit hook to run", () => tripped != undefined);
+        check(tripped == "maxAmount", "expected maxAmount to trip, got " + tripped);
+        check(stream.send(transfer(5)) == undefined, "a tripped limit let one in");
+
+        sleep(1);
+        check(node.getBalance(PAYEE) == 0, "a tripped limit let a transfer out");
+
+        stream.begin((ctx) => { ctx.resetSpendingLimit(ADDRESS); });
+        check(stream.send(transfer(5)) != undefined, "a reset limit refused one");
+        waitFor("the transfers to be sent", () => node.getBalance(PAYEE) == 10);
+    });
+}
+
+/** Makes a transfer that stays in the outbox long enough to be cancelled or amended. */
+function held(amount: number) {
+    return { ...transfer(amount), notBefore: os.epoch("utc") + 60 * 1000 };
+}
+
+/** Cancelling a transfer takes it off the sender's window. */
+function cancelRefunds() {
+    withStream("limits-cancel", [MockNode.create()], (stream) => {
+        let cancelled, admitted;
+        stream.begin((ctx) => {
+            ctx.setSpendingLimit(ADDRESS, { window: 3600, windowAmount: 10 });
+            cancelled = ctx.cancelSend(ctx.enqueueSend(held(8))!);
+            admitted = ctx.enqueueSend(held(8)) != undefined;
+        });
+        check(cancelled == true, "the transfer wasn't cancelled");
+        check(admitted == true, "a cancelled transfer still counted");
+    });
+}
+
+/** Amending a transfer counts the new amount in place of the old one. */
+function amendAdjusts() {
+    withStream("limits-amend", [MockNode.create()], (stream) => {
+        let amended, admitted, refused;
+        stream.begin((ctx) => {
+            ctx.setSpendingLimit(ADDRESS, { window: 3600, windowAmount: 10 });
+            amended = ctx.amendSend(ctx.enqueueSend(held(6))!, held(9));
+            admitted = ctx.enqueueSend(held(1)) != undefined;
+            refused = ctx.enqueueSend(held(1)) == undefined;
+        });
+        check(amended == true, "the transfer wasn't amended");
+        check(admitted == true, "the old amount still counted");
+        check(refused == true, "the new amount didn't count");
+    });
+}
+
+/** Amending a transfer keeps it where it was in the sender's window. */
+function amendKeepsTime() {
+    withStream("limits-amend-time", [MockNode.create()], (stream) => {
+        let id: string | undefined;
+        stream.begin((ctx) => {
+            ctx.setSpendingLimit(ADDRESS, { window: 2, windowAmount: 10 });
+            id = ctx.enqueueSend(held(6));
+        });
+
+        sleep(1.5);
+        stream.begin((ctx) => { ctx.amendSend(id!, held(7)); });
+        sleep(1);
+        let admitted;
+        stream.begin((ctx) => { admitted = ctx.enqueueSend(held(10)) != undefined; });
+        check(admitted == true, "the amended transfer moved up the window");
+    });
+}
+
+export const checks: Check[] = [
+    ["spending limits", tripAndReset],
+    ["spending limit refunds", cancelRefunds],
+    ["spending limit amendments", amendAdjusts],
+    ["spending limit amendment times", amendKeepsTime],
+];
@@ -0,0 +1,26 @@
+import * as failover from "./failover";
+import * as funds from "./funds";
+import { runChecks } from "./harness";
+import * as jobs from "./jobs";
+import * as ledgers from "./ledgers";
+import * as limits from "./limits";
+import * as meta from "./meta";
+import * as outgoing from "./outgoing";
+import * as schedules from "./schedules";
+import * as sets from "./sets";
+import * as stuck from "./stuck";
+import * as time from "./time";
+
+runChecks([
+    ...failover.checks,
+    ...schedules.checks,
+    ...stuck.checks,
+    ...limits.checks,
+    ...ledgers.checks,
+    ...funds.checks,
+    ...time.checks,
+    ...jobs.checks,
+    ...meta.checks,
+    ...sets.checks,
+    ...outgoing.checks,
+]);
@@ -0,0 +1,92 @@
+import { Transfer, encodeMeta, isValidMetaKey, parseApiTx } from "../src/transaction";
+import { Check, PAYEE, check } from "./harness";
+
+/** The ref that checks encode metadata with. */
+const REF = "00000000-0000-4000-8000-000000000000";
+
+/** Parses a transfer to the payee with some metadata. */
+function parseTransfer(metadata: string, sentName?: string): Transfer {
+    return <Transfer>parseApiTx({
+        id: 1,
+        type: "transfer",
+        from: "kfrom00000",
+        to: PAYEE,
+        value: 1,
+        time: "2000-01-01T00:00:00Z",
+        metadata,
+        sent_name: sentName,
+    });
+}
+
+/** Builds a meta map from a list of pairs. */
+function makeMeta(pairs: [string, string][]): LuaMap<string, string> {
+    const out = new LuaMap<string, string>();
+    for (const [k, v] of pairs) { out.set(k, v); }
+    return out;
+}
+
+/** Encoded values parse back to themselves, whatever separators or quotes they hold. */
+function roundTrip() {
+    const meta = makeMeta([
+        ["plain", "value"],
+        ["equals", "a=b=c"],
+        ["semicolon", "a;b"],
+        ["quoted", "\"a\""],
+        ["escapes", "\"a\\\";b\\"],
+        ["empty", ""],
+    ]);
+    const kv = parseTransfer(encodeMeta(meta, REF)).kv;
+    for (const [k, v] of meta) {
+        const got = kv.get(k);
+        check(got == v, string.format("%s: expected %q, got %q", k, v, tostring(got)));
+    }
+    check(kv.get("ref") == REF, "the ref didn't round trip");
+}
+
+/** Quotes that aren't terminated by the end of their record are kept verbatim. */
+function unterminatedQuotes() {
+    const kv = parseTransfer("a=\"b;c=d;e=\"f\"g").kv;
+    check(kv.get("a") == "\"b", "expected a to keep its quote, got " + kv.get("a"));
+    check(kv.get("c") == "d", "the record after an open quote was lost");
+    check(kv.get("e") == "\"f\"g", "expected e to be verbatim, got " + kv.get("e"));
+}
+
+/** Keys with separators, a leading quote, or a reserved name can't be sent. */
+function invalidKeys() {
+    check(isValidMetaKey("key"), "a plain key was refused");
+    check(isValidMetaKey(""), "an empty key was refused");
+    for (const k of ["a=b", "a;b", "\"a", "ref"]) {
+        check(!isValidMetaKey(k), string.format("%q was accepted as a key", k));
+    }
+}
+
+/** Ordered keys come first, the rest follow in key order, and the ref goes last. */
+function ordering() {
+    const meta = makeMeta([["a", "1"], ["b", "2"], ["c", "3"], ["d", "4"]]);
+    const got = encodeMeta(meta, REF, ["c", "a"]);
+    const expected = "c=3;a=1;b=2;d=4;ref=" + REF;
+    check(got == expected, "expected " + expected + ", got " + got);
+}
+
+/** Free-form records are kept in order, and the first one can name the target. */
+function records() {
+    const tx = parseTransfer("shop@store.kst;thanks;a=b;;see you");
+    const shown = tx.records.map((r) => (r.key ? r.key + "=" : "") + r.value);
+    const got = table.concat(shown, "|");
+    check(got == "shop@store.kst|thanks|a=b|see you", "got records " + got);
+    check(tx.target?.name == "store", "the declared name wasn't the target");
+    check(tx.target?.metaname == "shop", "the declared metaname wasn't the target");
+
+    check(!parseTransfer("a=b;store.kst").target, "a later record named the target");
+    const sent = parseTransfer("shop@store.kst", "other");
+    check(sent.target?.name == "other", "sent_name didn't take precedence");
+    check(sent.target?.metaname == undefined, "a declared metaname leaked in");
+}
+
+export const checks: Check[] = [
+    ["meta round trip", roundTrip],
+    ["unterminated meta quotes", unterminatedQuotes],
+    ["invalid meta keys", invalidKeys],
+    ["meta ordering", ordering],
+    ["meta records and targets", records],
+];
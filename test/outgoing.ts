@@ -0,0 +1,39 @@
+import { MockNode } from "../src/testing";
+import { OutgoingTransaction } from "../src/state";
+import { Check, check, transfer, withStream } from "./harness";
+
+/**
+ * Malformed transactions raise an error at the hook that enqueued them. The checks
+ * call `enqueueSend()` right through `pcall()`, so such an error has no position.
+ */
+function malformed() {
+    const reserved = new LuaMap<string, string>();
+    reserved.set("ref", "x");
+    const cases: [string, OutgoingTransaction][] = [
+        ["privateKey", { ...transfer(5), privateKey: <string><unknown>5 }],
+        ["privateKey", { ...transfer(5), privateKey: "" }],
+        ["to", { ...transfer(5), to: "nowhere" }],
+        ["amount", { ...transfer(5), amount: 0.5 }],
+        ["meta", { ...transfer(5), meta: reserved }],
+        ["metaOrder", { ...transfer(5), metaOrder: <string[]><unknown>"a" }],
+        ["type", { ...transfer(5), type: <"transfer">"burn" }],
+    ];
+
+    withStream("outgoing", [MockNode.create()], (stream) => {
+        stream.begin((ctx) => {
+            for (const [field, tx] of cases) {
+                const [ok, err] = pcall(ctx.enqueueSend, ctx, tx);
+                const msg = tostring(err);
+                check(!ok, "a transaction with a bad " + field + " was let in");
+                check(
+                    string.find(msg, "^bad field '" + field + "'")[0] != undefined,
+                    "expected an error about " + field + " at the hook, got " + msg,
+                );
+            }
+        });
+    });
+}
+
+export const checks: Check[] = [
+    ["malformed transactions", malformed],
+];
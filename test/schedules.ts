@@ -0,0 +1,22 @@
+import { MockNode } from "../src/testing";
+import { ADDRESS, Check, PAYEE, check, transfer, waitFor, withStream } from "./harness";
+
+/** A schedule that was overdue for a long time only catches up on 10 occurrences. */
+function catchUp() {
+    const node = MockNode.create();
+    node.setBalance(ADDRESS, 1000);
+
+    withStream("schedules", [node], (stream) => {
+        const start = os.epoch("utc") - 30 * 60 * 1000;
+        stream.begin((ctx) => { ctx.addSchedule(transfer(1), 60, start); });
+        waitFor("the occurrences to be sent", () => node.getBalance(PAYEE) >= 10);
+
+        sleep(1);
+        check(node.getBalance(PAYEE) == 10, "more than 10 occurrences were caught up");
+        check(stream.getPendingCount() == 0, "occurrences are still pending");
+    });
+}
+
+export const checks: Check[] = [
+    ["schedule catch-up", catchUp],
+];
@@ -0,0 +1,191 @@
+import { ApiTransaction } from "../src/util";
+import { MockNode } from "../src/testing";
+import { TransactionSet } from "../src/transactionSet";
+import { ADDRESS, Check, PAYEE, check, waitFor, withStream } from "./harness";
+
+/** An address outside of every set the checks use. */
+const OUTSIDER = "koutsider0";
+
+/** Makes a transaction for checking set membership. */
+function makeTx(
+    from: string | undefined,
+    to: string,
+    fields: Partial<ApiTransaction> = {},
+): ApiTransaction {
+    return {
+        id: 1,
+        type: "transfer",
+        from,
+        to,
+        value: 1,
+        time: "2000-01-01T00:00:00Z",
+        ...fields,
+    };
+}
+
+/** Makes distinct addresses that look like real ones. */
+function makeAddresses(count: number): string[] {
+    const out = [];
+    for (let i = 1; i <= count; i++) { out.push(string.format("kaddr%05d", i)); }
+    return out;
+}
+
+/** A set with several addresses has transactions to or from any of them. */
+function multipleAddresses() {
+    const set = new TransactionSet(false, [ADDRESS, PAYEE]);
+    check(set.contains(makeTx(OUTSIDER, ADDRESS)), "an incoming transfer was left out");
+    check(set.contains(makeTx(PAYEE, OUTSIDER)), "an outgoing transfer was left out");
+    check(set.contains(makeTx(ADDRESS, PAYEE)), "an inner transfer was left out");
+    check(!set.contains(makeTx(OUTSIDER, "kother0000")), "a foreign one was let in");
+
+    const one = new TransactionSet(false, [PAYEE]);
+    check(one.isSubset(set), "a set isn't a subset of one with more addresses");
+    check(!set.isSubset(one), "a set is a subset of one with fewer addresses");
+    check(set.isSubset(new TransactionSet(true)), "a set isn't a subset of all");
+    check(!TransactionSet.all().isSubset(set), "all is a subset of a narrower set");
+}
+
+/** Sets with too many addresses for a lookup are queried whole and filtered. */
+function lookupSplit() {
+    const few = new TransactionSet(false, makeAddresses(32));
+    check(few.getQuerySet().addresses?.length == 32, "32 addresses weren't looked up");
+    const many = new TransactionSet(false, makeAddresses(33));
+    check(many.getQuerySet().addresses == undefined, "33 addresses were looked up");
+}
+
+/**
+ * Waits until a stream has delivered at least as many transactions as expected, then
+ * gives it a moment to deliver extra ones and checks that it got exactly those.
+ */
+function expectDelivered(seen: number[], expected: number[]) {
+    waitFor("the transactions to arrive", () => seen.length >= expected.length);
+    sleep(1);
+    const got = table.concat(seen, ",");
+    const want = table.concat(expected, ",");
+    check(got == want, "expected transactions " + want + ", got " + got);
+}
+
+/**
+ * A stream following several addresses gets each of their transactions once, even
+ * those between two of them, and only theirs.
+ */
+function followMany(name: string, addresses: string[]) {
+    const node = MockNode.create();
+
+    withStream(name, [node], (stream) => {
+        const seen: number[] = [];
+        stream.onTransaction = (_ctx, tx) => { seen.push(tx.id); };
+
+        const incoming = node.transfer(OUTSIDER, ADDRESS, 5).id;
+        node.transfer(OUTSIDER, "kother0000", 5);
+        const inner = node.transfer(ADDRESS, PAYEE, 2).id;
+        const outgoing = node.transfer(PAYEE, OUTSIDER, 1).id;
+        expectDelivered(seen, [incoming, inner, outgoing]);
+    }, { addresses });
+}
+
+/** Sets with types or a direction only have matching transactions. */
+function typesAndDirection() {
+    const transfers = new TransactionSet(false, undefined, { types: ["transfer"] });
+    check(transfers.contains(makeTx(OUTSIDER, ADDRESS)), "a transfer was left out");
+    const purchase = makeTx(ADDRESS, "name", { type: "name_purchase", name: "foo" });
+    check(!transfers.contains(purchase), "a name purchase was let in");
+
+    const incoming = new TransactionSet(false, [ADDRESS], { direction: "in" });
+    check(incoming.contains(makeTx(OUTSIDER, ADDRESS)), "an incoming one was left out");
+    check(!incoming.contains(makeTx(ADDRESS, OUTSIDER)), "an outgoing one was let in");
+    const outgoing = new TransactionSet(false, [ADDRESS], { direction: "out" });
+    check(outgoing.contains(makeTx(ADDRESS, OUTSIDER)), "an outgoing one was left out");
+    check(!outgoing.contains(makeTx(OUTSIDER, ADDRESS)), "an incoming one was let in");
+
+    const both = new TransactionSet(false, [ADDRESS]);
+    check(incoming.isSubset(both), "an incoming set isn't a subset of both ways");
+    check(!both.isSubset(incoming), "a set both ways is a subset of an incoming one");
+    check(!outgoing.isSubset(incoming), "an outgoing set is a subset of an incoming");
+
+    const mixed = new TransactionSet(false, undefined, {
+        types: ["transfer", "name_purchase"],
+    });
+    check(transfers.isSubset(mixed), "a set isn't a subset of one with more types");
+    check(!mixed.isSubset(transfers), "a set is a subset of one with fewer types");
+}
+
+/** A stream with types and a direction only gets matching transactions. */
+function followFiltered() {
+    const node = MockNode.create();
+
+    withStream("filtered", [node], (stream) => {
+        const seen: number[] = [];
+        stream.onTransaction = (_ctx, tx) => { seen.push(tx.id); };
+
+        node.mine(ADDRESS, 10);
+        node.pushTransaction({
+            type: "name_purchase",
+            from: ADDRESS,
+            to: "name",
+            name: "foo",
+            value: 1,
+        });
+        node.transfer(ADDRESS, OUTSIDER, 1);
+        const incoming = node.transfer(OUTSIDER, ADDRESS, 5).id;
+        expectDelivered(seen, [incoming]);
+    }, { filters: { types: ["transfer"], direction: "in" } });
+}
+
+/**
+ * Sets with a name have transfers sent through it, but transfers only declaring it in
+ * their metadata count just when they go to our own addresses.
+ */
+function names() {
+    const anywhere = new TransactionSet(false, undefined, { name: "shop" });
+    const sent = makeTx(OUTSIDER, "kother0000", { sent_name: "shop" });
+    check(anywhere.contains(sent), "a transfer sent to the name was left out");
+    const declared = makeTx(OUTSIDER, "kother0000", { metadata: "shop.kst" });
+    check(!anywhere.contains(declared), "a declared name counted for anyone");
+
+    const owned = new TransactionSet(false, [ADDRESS], { name: "shop" });
+    const toUs = makeTx(OUTSIDER, ADDRESS, { metadata: "shop.kst" });
+    check(owned.contains(toUs), "a declared name to our address was left out");
+    const fromUs = makeTx(ADDRESS, OUTSIDER, { metadata: "shop.kst" });
+    check(!owned.contains(fromUs), "a declared name from our address counted");
+    const other = makeTx(OUTSIDER, ADDRESS, { metadata: "other.kst" });
+    check(!owned.contains(other), "a transfer to another name was let in");
+
+    const meta = new TransactionSet(false, [ADDRESS], { name: "shop", metaname: "a" });
+    const toMeta = makeTx(OUTSIDER, ADDRESS, { metadata: "a@shop.kst" });
+    check(meta.contains(toMeta), "a transfer to the metaname was left out");
+    check(!meta.contains(toUs), "a transfer without the metaname was let in");
+    check(meta.isSubset(owned), "a metaname set isn't a subset of its name");
+    check(!owned.isSubset(meta), "a name set is a subset of one of its metanames");
+}
+
+/** A stream with a name only gets transfers that really went to it. */
+function followName() {
+    const node = MockNode.create();
+    node.registerName("shop", ADDRESS);
+
+    withStream("name", [node], (stream) => {
+        const seen: number[] = [];
+        stream.onTransaction = (_ctx, tx) => { seen.push(tx.id); };
+
+        const sent = node.transfer(OUTSIDER, "shop.kst", 5).id;
+        const declared = node.transfer(OUTSIDER, ADDRESS, 5, "shop.kst").id;
+        node.transfer(ADDRESS, OUTSIDER, 1, "shop.kst");
+        node.transfer(OUTSIDER, ADDRESS, 5, "other.kst");
+        node.transfer(OUTSIDER, ADDRESS, 5);
+        expectDelivered(seen, [sent, declared]);
+    }, { filters: { name: "shop" } });
+}
+
+export const checks: Check[] = [
+    ["set with several addresses", multipleAddresses],
+    ["set lookup split", lookupSplit],
+    ["stream with several addresses", () => followMany("many", [ADDRESS, PAYEE])],
+    ["stream with too many addresses", () => {
+        followMany("too-many", [ADDRESS, PAYEE, ...makeAddresses(31)]);
+    }],
+    ["set with types and direction", typesAndDirection],
+    ["stream with types and direction", followFiltered],
+    ["set with a name", names],
+    ["stream with a name", followName],
+];
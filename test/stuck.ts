@@ -0,0 +1,34 @@
+import { SendError } from "../src/stream";
+import { MockNode } from "../src/testing";
+import { ADDRESS, Check, PAYEE, check, transfer, waitFor, withStream } from "./harness";
+
+/** The stuck hook gives up on a transfer whose submissions and checks time out. */
+function giveUp() {
+    const node = MockNode.create();
+    node.setBalance(ADDRESS, 100);
+
+    withStream("stuck", [node], (stream) => {
+        let asked: string | undefined;
+        let failure: SendError | undefined;
+        stream.stuckTimeout = 1;
+        stream.sentCheck = "search";
+        stream.onSendStuck = (_tx, uuid) => {
+            asked = uuid;
+            return true;
+        };
+        stream.onSendFailure = (_ctx, _tx, _uuid, err) => { failure = err; };
+
+        node.fail({ kind: "timeout", path: "^/transactions", times: math.huge });
+        node.fail({ kind: "timeout", path: "^/search", times: math.huge });
+        const id = stream.send(transfer(10));
+        waitFor("the transfer to fail", () => failure != undefined);
+        check(asked == id, "the stuck hook wasn't asked about the transfer");
+        const code = failure!.error;
+        check(code == "stuck", "expected a stuck error, got " + code);
+        check(node.getBalance(PAYEE) == 0, "the transfer went through");
+    });
+}
+
+export const checks: Check[] = [
+    ["stuck send", giveUp],
+];
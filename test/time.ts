@@ -0,0 +1,20 @@
+import { parseTime } from "../src/util";
+import { Check, check } from "./harness";
+
+/** Timestamps from every year of the leap cycle parse to their UTC epoch. */
+function timestamps() {
+    const cases: [string, number][] = [
+        ["2000-01-01T00:00:00Z", 946684800],
+        ["2023-12-31T23:59:59Z", 1704067199],
+        ["2024-02-29T12:34:56Z", 1709210096],
+        ["2026-10-18T08:00:00.250Z", 1792310400.25],
+    ];
+    for (const [timestamp, expected] of cases) {
+        const got = parseTime(timestamp);
+        check(got == expected, string.format("%s parsed as %s", timestamp, got));
+    }
+}
+
+export const checks: Check[] = [
+    ["timestamp parsing", timestamps],
+];